@@ -1,51 +1,156 @@
 import { html as beautifyHtml } from 'js-beautify'
 import {
+  type ClipboardEvent,
   type KeyboardEvent,
+  use,
   useCallback,
   useEffect,
   useLayoutEffect,
+  useRef,
+  useState,
 } from 'react'
-import { renderToStaticMarkup } from 'react-dom/server'
+import 'highlight.js/styles/github-dark.css'
+import 'katex/dist/katex.min.css'
 import './App.css'
 import { isEqual } from 'es-toolkit'
 import { icons } from 'feather-icons'
 import { Command } from './command'
 import { DebugPanel } from './components/debug-panel'
-import type { JSONValue } from './nodes/types/node-description'
-import { getCursor } from './selection'
-import { useStateManager } from './state'
+import { NodeSelection } from './components/node-selection'
+import { getOutline, Outline } from './components/outline'
+import { ConnectedUsers, RemoteCursors } from './components/presence'
+import { parseDocument, toStoredDocument } from './document'
+import { toH5p } from './h5p'
+import { toHtmlDocument } from './html-export'
+import { type ConversionResult, fromMarkdown, toMarkdown } from './markdown'
+import { HeadingHandler } from './nodes/heading'
+import { formatIssues, validateJson } from './nodes/schema'
+import type { HeadingLevel, JSONValue } from './nodes/types/node-description'
+import { createRandomUser } from './presence'
+import { fromQti, type QtiVersion, toQti } from './qti'
+import type { MarkType } from './rich-text'
+import {
+  type Cursor,
+  getCursor,
+  getDomRange,
+  isInBoundaryLine,
+} from './selection'
+import { type Key, rootKey, useStateManager } from './state'
+import type { CursorMovement } from './state/cursor-movement'
+import { createSyncProvider, isSyncProviderType, persistDocument } from './sync'
 
 const initialContent: JSONValue<'root'> = [
+  { type: 'heading', level: 1, value: 'Welcome' },
   { type: 'paragraph', value: 'Welcome this is an editor example.' },
   { type: 'paragraph', value: 'Hello World' },
+  {
+    type: 'bulletList',
+    items: [
+      {
+        type: 'listItem',
+        value: [{ type: 'paragraph', value: 'Press Tab to indent an item' }],
+      },
+      {
+        type: 'listItem',
+        value: [{ type: 'paragraph', value: 'Press Shift+Tab to outdent it' }],
+      },
+    ],
+  },
   {
     type: 'multipleChoice',
+    mode: 'single',
     task: [{ type: 'paragraph', value: 'What is 2 + 2?' }],
     answers: [
-      { type: 'multipleChoiceAnswer', isCorrect: false, answer: '3' },
+      {
+        type: 'multipleChoiceAnswer',
+        isCorrect: false,
+        answer: '3',
+        feedback: [{ type: 'paragraph', value: 'Count again: 2 + 2 = 4.' }],
+      },
       { type: 'multipleChoiceAnswer', isCorrect: true, answer: '4' },
       { type: 'multipleChoiceAnswer', isCorrect: false, answer: '5' },
     ],
   },
 ]
 
+const room = window.location.hash || 'editor'
+const providerType = new URLSearchParams(window.location.search).get('provider')
+const provider = createSyncProvider(
+  isSyncProviderType(providerType) ? providerType : 'webrtc',
+  room,
+)
+// The initial content is only inserted into an empty room, so a new peer must
+// wait for the document of the other peers before the editor is created
+const documentLoaded = persistDocument(provider.doc, room).then(() =>
+  provider.doc.getMap('entries').has(rootKey) ? undefined : provider.whenSynced,
+)
+
+provider.awareness.setLocalStateField('user', createRandomUser())
+
 export default function App() {
-  const { manager } = useStateManager('root', initialContent)
+  use(documentLoaded)
+
+  const { manager } = useStateManager('root', initialContent, provider)
+  const articleRef = useRef<HTMLElement>(null)
+  const isEditing = manager.mode === 'edit'
+  const [openMenu, setOpenMenu] = useState<'import' | 'export' | null>(null)
 
   const handleKeyDown = useCallback(
     (event: KeyboardEvent<HTMLElement>) => {
-      if (event.key.length === 1 && !event.ctrlKey && !event.metaKey) {
+      // In the preview the keys operate the exercises (like their buttons)
+      if (isFormControl(event.target) || manager.mode !== 'edit') return
+
+      const movement = getCursorMovement(event, manager.state.cursor)
+
+      if (movement != null) {
+        manager.dispatchCommand(Command.MoveCursor, movement, event.shiftKey)
+      } else if (event.key.length === 1 && !event.ctrlKey && !event.metaKey) {
         manager.dispatchCommand(Command.InsertText, event.key)
+      } else if (isMoveShortcut(event)) {
+        manager.dispatchCommand(
+          event.key === 'ArrowUp' ? Command.MoveUp : Command.MoveDown,
+        )
       } else if (event.key === 'Enter') {
         manager.dispatchCommand(Command.InsertNewElement)
+      } else if (event.key === 'Tab') {
+        manager.dispatchCommand(
+          event.shiftKey ? Command.Outdent : Command.Indent,
+        )
       } else if (event.key === 'Backspace') {
         manager.dispatchCommand(Command.DeleteBackward)
       } else if (event.key === 'Delete') {
         manager.dispatchCommand(Command.DeleteForward)
+      } else if (isModifierPressed(event) && event.key.toLowerCase() === 'z') {
+        manager.dispatchCommand(event.shiftKey ? Command.Redo : Command.Undo)
+      } else if (isModifierPressed(event) && event.key.toLowerCase() === 'y') {
+        manager.dispatchCommand(Command.Redo)
+      } else if (isHeadingShortcut(event)) {
+        const level = Number(event.code.slice(-1))
+
+        manager.dispatchCommand(
+          Command.SetHeading,
+          level > 0 ? (level as HeadingLevel) : null,
+        )
+      } else if (isModifierPressed(event) && isMarkShortcut(event.key)) {
+        manager.dispatchCommand(
+          Command.ToggleMark,
+          markShortcuts[event.key.toLowerCase()],
+        )
+      } else if (isModifierPressed(event) && event.key.toLowerCase() === 'k') {
+        const href = window.prompt('Link URL (empty to remove the link):')
+
+        if (href != null) {
+          manager.dispatchCommand(Command.SetLink, href !== '' ? href : null)
+        }
       }
 
       if (
-        (event.ctrlKey && ['c', 'v', 'x'].includes(event.key.toLowerCase())) ||
+        movement != null ||
+        (isModifierPressed(event) &&
+          ['z', 'y', 'k'].includes(event.key.toLowerCase())) ||
+        (isModifierPressed(event) && isMarkShortcut(event.key)) ||
+        isHeadingShortcut(event) ||
+        isMoveShortcut(event) ||
         ['Enter', 'Tab', 'Delete', 'Backspace'].includes(event.key) ||
         (event.key.length === 1 && !event.ctrlKey && !event.metaKey)
       ) {
@@ -55,7 +160,43 @@ export default function App() {
     [manager],
   )
 
+  const handleClipboardEvent = useCallback(
+    (event: ClipboardEvent<HTMLElement>) => {
+      // The preview has no cursor, so the browser copies the selected text
+      if (isFormControl(event.target) || manager.mode !== 'edit') return
+
+      event.preventDefault()
+
+      const command =
+        event.type === 'copy'
+          ? Command.Copy
+          : event.type === 'cut'
+            ? Command.Cut
+            : Command.Paste
+
+      manager.dispatchCommand(command, event.clipboardData)
+    },
+    [manager],
+  )
+
+  const selectHeading = useCallback(
+    (key: Key<'heading'>) => {
+      if (manager.mode === 'edit') {
+        articleRef.current?.focus()
+        manager.update((state) =>
+          HeadingHandler.selectStart(state, state.getEntry(key)),
+        )
+      }
+      document.getElementById(key)?.scrollIntoView({ block: 'nearest' })
+    },
+    [manager],
+  )
+
   const updateCursorFromSelection = useCallback(() => {
+    // Selections in the read-only preview are not cursors of the document
+    if (manager.mode !== 'edit') return
+    if (isFormControl(document.activeElement)) return
+
     const selection = document.getSelection()
     const cursor = getCursor(selection)
     if (!isEqual(cursor, manager.state.cursor)) {
@@ -76,113 +217,621 @@ export default function App() {
     const { cursor } = manager.state
     const selection = document.getSelection()
 
-    if (selection == null) return
+    if (selection == null || manager.mode !== 'edit') return
+    // Moving the selection would take the focus away from the form control
+    if (isFormControl(document.activeElement)) return
     if (isEqual(cursor, getCursor(selection))) return
 
     selection.removeAllRanges()
 
-    if (cursor == null) return
+    const range = cursor != null ? getDomRange(cursor) : null
 
-    const { start, end } = cursor
+    if (range != null) selection.addRange(range)
+  }, [manager, manager.state.updateCount])
 
-    const startNode = document.getElementById(start.key)
-    const endNode = document.getElementById(end.key)
+  const toggleMenu = (menu: 'import' | 'export') => {
+    setOpenMenu((openMenu) => (openMenu === menu ? null : menu))
+  }
 
-    if (startNode == null || endNode == null) return
+  const closeMenuAfter =
+    <A extends unknown[], R>(action: (...args: A) => R) =>
+    (...args: A) => {
+      setOpenMenu(null)
+      return action(...args)
+    }
 
-    const range = document.createRange()
+  const importFile = async (
+    file: File,
+    convert: (file: File) => Promise<ConversionResult<JSONValue<'root'>>>,
+  ) => {
+    let result: ConversionResult<JSONValue<'root'>>
 
-    if (start.index != null) {
-      range.setStart(startNode.firstChild ?? startNode, start.index)
-    } else {
-      range.setStart(startNode, 0)
+    try {
+      result = await convert(file)
+    } catch {
+      // Like a corrupt or truncated ZIP archive
+      window.alert(`${file.name} is damaged and cannot be imported.`)
+      return
+    }
+
+    const issues = validateJson('root', result.value)
+
+    if (issues.length > 0) {
+      window.alert(
+        `${file.name} was converted into invalid content:\n\n${formatIssues(issues)}`,
+      )
+      return
+    }
+
+    manager.dispatchCommand(Command.InsertContent, result.value)
+    showWarnings(`Imported ${file.name}`, result.warnings)
+  }
+
+  const importMarkdown = (file: File) =>
+    importFile(file, async (file) => fromMarkdown(await file.text()))
+
+  const importQti = (file: File) =>
+    importFile(file, async (file) =>
+      fromQti(new Uint8Array(await file.arrayBuffer())),
+    )
+
+  const importJson = async (file: File) => {
+    let data: unknown
+
+    try {
+      data = JSON.parse(await file.text())
+    } catch {
+      window.alert(`${file.name} is not a valid JSON file.`)
+      return
     }
 
-    if (end.index != null) {
-      range.setEnd(endNode.firstChild ?? endNode, end.index)
+    const result = parseDocument(data)
+
+    if (result.success) {
+      manager.dispatchCommand(Command.InsertContent, result.content)
     } else {
-      range.setEnd(endNode, 0)
+      window.alert(
+        `${file.name} is not a valid document:\n\n${formatIssues(result.issues)}`,
+      )
     }
+  }
 
-    selection.addRange(range)
-  }, [manager, manager.state.updateCount])
+  const getTitle = () => getOutline(manager.state)[0]?.text || 'Document'
+
+  const exportMarkdown = () => {
+    const { value, warnings } = toMarkdown(manager.read())
+
+    downloadFile('document.md', value, 'text/markdown')
+    showWarnings('Exported the document', warnings)
+  }
+
+  const exportJson = () => {
+    const json = JSON.stringify(toStoredDocument(manager.read()), null, 2)
+
+    downloadFile('document.json', json, 'application/json')
+  }
+
+  const exportHtml = () => {
+    const html = toHtmlDocument({
+      title: getTitle(),
+      body: manager.renderHtml(),
+    })
+
+    downloadFile('document.html', html, 'text/html')
+  }
+
+  const exportH5p = () => {
+    const { value, warnings } = toH5p(manager.read(), getTitle())
+
+    downloadFile('document.h5p', value, 'application/zip')
+    showWarnings('Exported the document', warnings)
+  }
+
+  const exportQti = (version: QtiVersion) => {
+    const { value, warnings } = toQti(manager.read(), version)
+
+    downloadFile(`document-qti-${version}.zip`, value, 'application/zip')
+    showWarnings('Exported the document', warnings)
+  }
 
   return (
-    <main className="prose p-10">
-      <h1>Editor:</h1>
-      <div className="rounded-2xl border-2 border-blue-800 px-4">
-        <article
-          className="outline-none"
-          contentEditable
-          suppressContentEditableWarning
-          spellCheck={false}
-          onKeyDown={handleKeyDown}
-        >
-          {manager.render()}
-        </article>
-
-        <div className="flex flex-row gap-2 mb-4  mt-8 border-t-2  border-t-blue-800 pt-4">
-          <button
-            type="button"
-            onClick={() => {
-              manager.dispatchCommand(Command.AddMultipleChoice)
-            }}
-            className={'btn btn-accent'}
-          >
-            <img
-              src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['check-circle'].toSvg())}`}
-              className="inline mr-2"
-              alt=""
-            />
-            Add Multiple Choice
-          </button>
-          <button
-            type="button"
-            onClick={() => {
-              manager.dispatchCommand(Command.AddParagraph)
-            }}
-            className={'btn btn-warning'}
-          >
-            <img
-              src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['align-left'].toSvg())}`}
-              className="inline mr-2"
-              alt=""
-            />
-            Add Paragraph
-          </button>
+    <main className="flex flex-row gap-8 p-10">
+      <aside className="sticky top-10 w-56 shrink-0 self-start">
+        <Outline
+          headings={getOutline(manager.state)}
+          onSelect={selectHeading}
+        />
+      </aside>
+      <div className="prose grow">
+        <div className="flex flex-row items-center justify-between">
+          <h1>{isEditing ? 'Editor:' : 'Preview:'}</h1>
+          <div className="flex flex-row gap-2">
+            {isEditing ? (
+              <div
+                className={`dropdown ${openMenu === 'import' ? 'dropdown-open' : ''}`}
+              >
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  // Keeps the cursor, so that the content is imported there
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => toggleMenu('import')}
+                >
+                  <img
+                    src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.upload.toSvg())}`}
+                    className="inline m-0"
+                    alt=""
+                  />
+                  Import
+                </button>
+                {openMenu === 'import' ? (
+                  <ul className="dropdown-content menu not-prose bg-base-100 rounded-box z-10 w-48 p-2 shadow-sm">
+                    {renderFileMenuItem({
+                      label: 'Editor JSON',
+                      accept: '.json,application/json',
+                      onFile: closeMenuAfter(importJson),
+                    })}
+                    {renderFileMenuItem({
+                      label: 'Markdown',
+                      accept: '.md,.markdown,text/markdown,text/plain',
+                      onFile: closeMenuAfter(importMarkdown),
+                    })}
+                    {renderFileMenuItem({
+                      label: 'QTI (ZIP or XML)',
+                      accept: '.zip,.xml,application/zip,application/xml',
+                      onFile: closeMenuAfter(importQti),
+                    })}
+                  </ul>
+                ) : null}
+              </div>
+            ) : null}
+            <div
+              className={`dropdown dropdown-end ${openMenu === 'export' ? 'dropdown-open' : ''}`}
+            >
+              <button
+                type="button"
+                className="btn btn-ghost"
+                onClick={() => toggleMenu('export')}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.download.toSvg())}`}
+                  className="inline m-0"
+                  alt=""
+                />
+                Export
+              </button>
+              {openMenu === 'export' ? (
+                <ul className="dropdown-content menu not-prose bg-base-100 rounded-box z-10 w-48 p-2 shadow-sm">
+                  {renderMenuItem('Editor JSON', closeMenuAfter(exportJson))}
+                  {renderMenuItem('Markdown', closeMenuAfter(exportMarkdown))}
+                  {renderMenuItem('HTML', closeMenuAfter(exportHtml))}
+                  {renderMenuItem('H5P', closeMenuAfter(exportH5p))}
+                  {renderMenuItem(
+                    'QTI 2.1',
+                    closeMenuAfter(() => exportQti('2.1')),
+                  )}
+                  {renderMenuItem(
+                    'QTI 3.0',
+                    closeMenuAfter(() => exportQti('3.0')),
+                  )}
+                </ul>
+              ) : null}
+            </div>
+            <button
+              type="button"
+              className="btn btn-outline"
+              onClick={() => manager.setMode(isEditing ? 'preview' : 'edit')}
+            >
+              <img
+                src={`data:image/svg+xml;utf8,${encodeURIComponent(icons[isEditing ? 'eye' : 'edit'].toSvg())}`}
+                className="inline mr-2"
+                alt=""
+              />
+              {isEditing ? 'Preview' : 'Edit'}
+            </button>
+          </div>
         </div>
+        <ConnectedUsers user={manager.state.user} peers={manager.state.peers} />
+        <div className="rounded-2xl border-2 border-blue-800 px-4">
+          <div className="relative">
+            <article
+              ref={articleRef}
+              className="outline-none"
+              contentEditable={isEditing}
+              suppressContentEditableWarning
+              spellCheck={false}
+              onKeyDown={handleKeyDown}
+              onCopy={handleClipboardEvent}
+              onCut={handleClipboardEvent}
+              onPaste={handleClipboardEvent}
+            >
+              {manager.render()}
+            </article>
+            {isEditing ? (
+              <>
+                <NodeSelection cursor={manager.state.cursor} />
+                <RemoteCursors peers={manager.state.peers} />
+              </>
+            ) : null}
+          </div>
+
+          {isEditing ? (
+            <div className="flex flex-row gap-2 mb-4  mt-8 border-t-2  border-t-blue-800 pt-4">
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddMultipleChoice)
+                }}
+                className={'btn btn-accent'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['check-circle'].toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Multiple Choice
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddCloze)
+                }}
+                className={'btn btn-accent'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['edit-3'].toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Cloze
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddTextInput)
+                }}
+                className={'btn btn-accent'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['message-square'].toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Text Input
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddOrdering)
+                }}
+                className={'btn btn-accent'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['bar-chart-2'].toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Ordering
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddMatching)
+                }}
+                className={'btn btn-accent'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.shuffle.toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Matching
+              </button>
+              <button
+                type="button"
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => {
+                  const alternatives = window.prompt(
+                    'Further accepted answers of the blank, separated by "|":',
+                  )
+
+                  if (alternatives != null) {
+                    manager.dispatchCommand(
+                      Command.SetBlank,
+                      alternatives
+                        .split('|')
+                        .map((alternative) => alternative.trim())
+                        .filter((alternative) => alternative !== ''),
+                    )
+                  }
+                }}
+                className={'btn btn-outline'}
+              >
+                Blank
+              </button>
+              <button
+                type="button"
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => {
+                  manager.dispatchCommand(Command.SetBlank, null)
+                }}
+                className={'btn btn-outline'}
+              >
+                Remove Blank
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddParagraph)
+                }}
+                className={'btn btn-warning'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['align-left'].toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Paragraph
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddImage)
+                }}
+                className={'btn btn-warning'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.image.toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Image
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddFormula)
+                }}
+                className={'btn btn-warning'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.divide.toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Formula
+              </button>
+              <button
+                type="button"
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => {
+                  manager.dispatchCommand(Command.ToggleMark, 'math')
+                }}
+                className={'btn btn-outline'}
+              >
+                Inline Formula
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.AddCodeBlock)
+                }}
+                className={'btn btn-warning'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.code.toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Add Code
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.ToggleList, 'bulletList')
+                }}
+                className={'btn btn-info'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.list.toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Bulleted List
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  manager.dispatchCommand(Command.ToggleList, 'orderedList')
+                }}
+                className={'btn btn-info'}
+              >
+                <img
+                  src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.hash.toSvg())}`}
+                  className="inline mr-2"
+                  alt=""
+                />
+                Numbered List
+              </button>
+            </div>
+          ) : null}
+        </div>
+        <DebugPanel
+          labels={
+            {
+              html: 'HTML output',
+              selection: 'Current selection',
+              state: 'External editor state',
+              entities: 'Internal editor state',
+            } as const
+          }
+          showOnStartup={{
+            html: true,
+            selection: true,
+            state: false,
+            entities: false,
+          }}
+          getCurrentValue={{
+            html: () =>
+              beautifyHtml(manager.renderHtml(), {
+                indent_size: 2,
+                wrap_line_length: 70,
+              }),
+            selection: () =>
+              JSON.stringify({ cursor: manager.state.cursor }, undefined, 2),
+            state: () => JSON.stringify(manager.read(), undefined, 2),
+            entities: () =>
+              manager.state
+                .getEntries()
+                .map(([key, entry]) => `${key}: ${JSON.stringify(entry)}`)
+                .join('\n'),
+          }}
+        />
       </div>
-      <DebugPanel
-        labels={
-          {
-            html: 'HTML output',
-            selection: 'Current selection',
-            state: 'External editor state',
-            entities: 'Internal editor state',
-          } as const
-        }
-        showOnStartup={{
-          html: true,
-          selection: true,
-          state: false,
-          entities: false,
-        }}
-        getCurrentValue={{
-          html: () =>
-            beautifyHtml(renderToStaticMarkup(manager.render()), {
-              indent_size: 2,
-              wrap_line_length: 70,
-            }),
-          selection: () =>
-            JSON.stringify({ cursor: manager.state.cursor }, undefined, 2),
-          state: () => JSON.stringify(manager.read(), undefined, 2),
-          entities: () =>
-            manager.state
-              .getEntries()
-              .map(([key, entry]) => `${key}: ${JSON.stringify(entry)}`)
-              .join('\n'),
-        }}
-      />
     </main>
   )
 }
+
+function renderMenuItem(label: string, onClick: () => void) {
+  return (
+    <li key={label}>
+      <button type="button" onClick={onClick}>
+        {label}
+      </button>
+    </li>
+  )
+}
+
+function renderFileMenuItem({
+  label,
+  accept,
+  onFile,
+}: {
+  label: string
+  accept: string
+  onFile: (file: File) => Promise<void>
+}) {
+  return (
+    <li key={label}>
+      <label onMouseDown={(event) => event.preventDefault()}>
+        {label}
+        <input
+          type="file"
+          accept={accept}
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+
+            if (file != null) void onFile(file)
+
+            // Allows importing the same file again
+            event.target.value = ''
+          }}
+        />
+      </label>
+    </li>
+  )
+}
+
+function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Tells the user which parts of the content could not be converted.
+ */
+function showWarnings(title: string, warnings: string[]) {
+  if (warnings.length === 0) return
+
+  window.alert(
+    `${title} with ${warnings.length} warning(s):\n\n${warnings.join('\n')}`,
+  )
+}
+
+const markShortcuts: Record<string, MarkType> = {
+  b: 'bold',
+  i: 'italic',
+  u: 'underline',
+  e: 'code',
+  m: 'math',
+}
+
+function isMarkShortcut(key: string) {
+  return key.toLowerCase() in markShortcuts
+}
+
+/**
+ * Ctrl+Alt+1 to Ctrl+Alt+3 turn the current block into a heading and
+ * Ctrl+Alt+0 turns it back into a paragraph.
+ */
+function isHeadingShortcut(event: KeyboardEvent<HTMLElement>) {
+  return (
+    isModifierPressed(event) && event.altKey && /^Digit[0-3]$/.test(event.code)
+  )
+}
+
+/**
+ * Returns the cursor movement of a navigation key. Up and down within a
+ * wrapped text are left to the browser, since only it knows the visual lines.
+ * With Alt they move the selected element instead (see `isMoveShortcut()`).
+ */
+function getCursorMovement(
+  event: KeyboardEvent<HTMLElement>,
+  cursor: Cursor | null,
+): CursorMovement | null {
+  const isWordModifierPressed = event.ctrlKey || event.altKey
+
+  switch (event.key) {
+    case 'ArrowLeft':
+      if (event.metaKey) return 'lineStart'
+      return isWordModifierPressed ? 'wordLeft' : 'left'
+    case 'ArrowRight':
+      if (event.metaKey) return 'lineEnd'
+      return isWordModifierPressed ? 'wordRight' : 'right'
+    case 'ArrowUp':
+      if (event.altKey) return null
+      if (event.metaKey) return 'documentStart'
+      return cursor == null || isInBoundaryLine(cursor.start, 'up')
+        ? 'up'
+        : null
+    case 'ArrowDown':
+      if (event.altKey) return null
+      if (event.metaKey) return 'documentEnd'
+      return cursor == null || isInBoundaryLine(cursor.end, 'down')
+        ? 'down'
+        : null
+    case 'Home':
+      return isModifierPressed(event) ? 'documentStart' : 'lineStart'
+    case 'End':
+      return isModifierPressed(event) ? 'documentEnd' : 'lineEnd'
+    default:
+      return null
+  }
+}
+
+/**
+ * Form controls within the content (like the alt text of an image or the
+ * inputs of exercises) handle keys, the selection and the clipboard on their
+ * own.
+ */
+function isFormControl(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  )
+}
+
+function isMoveShortcut(event: KeyboardEvent<HTMLElement>) {
+  return event.altKey && ['ArrowUp', 'ArrowDown'].includes(event.key)
+}
+
+function isModifierPressed(event: KeyboardEvent<HTMLElement>) {
+  return event.ctrlKey || event.metaKey
+}
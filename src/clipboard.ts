@@ -0,0 +1,249 @@
+import { escape as escapeHtml } from 'es-toolkit'
+import { parseDocument, toStoredDocument } from './document'
+import { renderMath } from './math'
+import { formatIssues } from './nodes/schema'
+import type { JSONValue } from './nodes/types/node-description'
+import { getPlainText, richTextToHtml } from './rich-text'
+
+/**
+ * Subset of `DataTransfer` which is needed to copy and paste content.
+ */
+export type ClipboardTransfer = Pick<DataTransfer, 'getData' | 'setData'>
+
+/**
+ * MIME type of the editor's own JSON format in the clipboard.
+ */
+export const jsonMimeType = 'application/x-oer-editor+json'
+
+export function writeClipboard(
+  clipboard: ClipboardTransfer,
+  content: JSONValue<'root'>,
+) {
+  clipboard.setData(jsonMimeType, JSON.stringify(toStoredDocument(content)))
+  clipboard.setData('text/html', content.map(toHtml).join(''))
+  clipboard.setData('text/plain', content.map(toPlainText).join('\n'))
+}
+
+/**
+ * Reads the content of the clipboard. Content in the editor's own format is
+ * preferred, otherwise HTML or plain text is converted into paragraphs.
+ */
+export function readClipboard(
+  clipboard: ClipboardTransfer,
+): JSONValue<'root'> | null {
+  const json = clipboard.getData(jsonMimeType)
+
+  if (json !== '') {
+    const content = parseJson(json)
+
+    if (content != null) return content
+  }
+
+  const html = clipboard.getData('text/html')
+
+  if (html !== '') return toParagraphs(parseHtml(html))
+
+  const text = clipboard.getData('text/plain')
+
+  if (text !== '')
+    return toParagraphs(text.replace(/\r?\n$/, '').split(/\r?\n/))
+
+  return null
+}
+
+/**
+ * Converts an element into HTML for other applications. Exercises are
+ * converted together with their solutions.
+ */
+export function toHtml(element: JSONValue<'root'>[number]): string {
+  if (element.type === 'paragraph')
+    return `<p>${richTextToHtml(element.value)}</p>`
+  if (element.type === 'formula')
+    return `<div>${renderMath(getPlainText(element.value), { displayMode: true, output: 'mathml' })}</div>`
+  if (element.type === 'codeBlock')
+    return `<pre><code class="language-${element.language}">${escapeHtml(getPlainText(element.code))}</code></pre>`
+  if (element.type === 'heading')
+    return `<h${element.level}>${richTextToHtml(element.value)}</h${element.level}>`
+  if (element.type === 'bulletList' || element.type === 'orderedList') {
+    const tag = element.type === 'bulletList' ? 'ul' : 'ol'
+    const items = element.items
+      .map(({ value }) => `<li>${value.map(toHtml).join('')}</li>`)
+      .join('')
+
+    return `<${tag}>${items}</${tag}>`
+  }
+  if (element.type === 'cloze') {
+    const task = element.task.map(toHtml).join('')
+
+    return `<div>${task}${element.text.map(toHtml).join('')}</div>`
+  }
+  if (element.type === 'textInput') {
+    const task = element.task.map(toHtml).join('')
+    const solution = element.solution.map(toHtml).join('')
+
+    return `<div>${task}<blockquote>${solution}</blockquote></div>`
+  }
+  if (element.type === 'image') {
+    const caption = element.caption?.map(toHtml).join('') ?? ''
+    const attribution = [element.author, element.license]
+      .filter((part) => part != null)
+      .join(', ')
+
+    return `<figure><img src="${escapeHtml(element.src)}" alt="${escapeHtml(element.alt)}"><figcaption>${caption}${attribution !== '' ? `<small>${escapeHtml(attribution)}</small>` : ''}</figcaption></figure>`
+  }
+  if (element.type === 'ordering') {
+    const task = element.task.map(toHtml).join('')
+    const items = element.items
+      .map(({ value }) => `<li>${richTextToHtml(value)}</li>`)
+      .join('')
+
+    return `<div>${task}<ol>${items}</ol></div>`
+  }
+  if (element.type === 'matching') {
+    const task = element.task.map(toHtml).join('')
+    const pairs = element.pairs
+      .map(
+        ({ term, match }) =>
+          `<tr><td>${term.map(toHtml).join('')}</td><td>${match.map(toHtml).join('')}</td></tr>`,
+      )
+      .join('')
+
+    return `<div>${task}<table>${pairs}</table></div>`
+  }
+
+  const task = element.task.map(toHtml).join('')
+  const inputType = element.mode === 'single' ? 'radio' : 'checkbox'
+  const answers = element.answers
+    .map(
+      ({ isCorrect, answer }) =>
+        `<li><input type="${inputType}" disabled${isCorrect ? ' checked' : ''}> ${richTextToHtml(answer)}</li>`,
+    )
+    .join('')
+
+  return `<div>${task}<ul>${answers}</ul></div>`
+}
+
+function toPlainText(element: JSONValue<'root'>[number]): string {
+  if (element.type === 'paragraph' || element.type === 'heading')
+    return getPlainText(element.value)
+  if (element.type === 'formula') return `$$${getPlainText(element.value)}$$`
+  if (element.type === 'codeBlock') return getPlainText(element.code)
+  if (element.type === 'bulletList' || element.type === 'orderedList') {
+    return element.items
+      .map(({ value }, index) => {
+        const marker = element.type === 'bulletList' ? '- ' : `${index + 1}. `
+        const lines = value.map(toPlainText).join('\n').split('\n')
+
+        // Following lines are indented so that nested lists stay nested
+        return lines
+          .map(
+            (line, i) => (i === 0 ? marker : ' '.repeat(marker.length)) + line,
+          )
+          .join('\n')
+      })
+      .join('\n')
+  }
+  if (element.type === 'cloze')
+    return [...element.task, ...element.text].map(toPlainText).join('\n')
+  if (element.type === 'textInput')
+    return [...element.task, ...element.solution].map(toPlainText).join('\n')
+  if (element.type === 'image') {
+    return [
+      `[Image: ${element.alt}]`,
+      ...(element.caption?.map(toPlainText) ?? []),
+    ].join('\n')
+  }
+  if (element.type === 'ordering') {
+    return [
+      ...element.task.map(toPlainText),
+      ...element.items.map(
+        ({ value }, index) => `${index + 1}. ${getPlainText(value)}`,
+      ),
+    ].join('\n')
+  }
+  if (element.type === 'matching') {
+    return [
+      ...element.task.map(toPlainText),
+      ...element.pairs.map(
+        ({ term, match }) =>
+          `- ${term.map(toPlainText).join(' ')} – ${match.map(toPlainText).join(' ')}`,
+      ),
+    ].join('\n')
+  }
+
+  return [
+    ...element.task.map(toPlainText),
+    ...element.answers.map(
+      ({ isCorrect, answer }) =>
+        `- [${isCorrect ? 'x' : ' '}] ${getPlainText(answer)}`,
+    ),
+  ].join('\n')
+}
+
+function parseJson(json: string): JSONValue<'root'> | null {
+  try {
+    const result = parseDocument(JSON.parse(json))
+
+    if (result.success) return result.content
+
+    console.error(
+      `Invalid content in the clipboard:\n${formatIssues(result.issues)}`,
+    )
+  } catch {
+    // Invalid JSON is handled like missing JSON
+  }
+
+  return null
+}
+
+const blockElements = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'div',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'li',
+  'p',
+  'pre',
+  'section',
+  'tr',
+])
+
+/**
+ * Returns the lines of an HTML document. Each block element and each line
+ * break starts a new line.
+ */
+function parseHtml(html: string): string[] {
+  const { body } = new DOMParser().parseFromString(html, 'text/html')
+  const lines = ['']
+
+  const startNewLine = () => {
+    if (lines[lines.length - 1].trim() !== '') lines.push('')
+  }
+  const visit = (node: Node) => {
+    if (node instanceof Text) {
+      lines[lines.length - 1] += node.data.replace(/\s+/g, ' ')
+    } else if (node instanceof HTMLBRElement) {
+      lines.push('')
+    } else if (node instanceof Element) {
+      const isBlock = blockElements.has(node.tagName.toLowerCase())
+
+      if (isBlock) startNewLine()
+      node.childNodes.forEach(visit)
+      if (isBlock) startNewLine()
+    }
+  }
+
+  visit(body)
+
+  return lines.map((line) => line.trim()).filter((line) => line !== '')
+}
+
+function toParagraphs(lines: string[]): JSONValue<'paragraph'>[] {
+  return lines.map((value) => ({ type: 'paragraph', value }))
+}
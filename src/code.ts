@@ -0,0 +1,63 @@
+import { escape as escapeHtml } from 'es-toolkit'
+import hljs from 'highlight.js/lib/core'
+import bash from 'highlight.js/lib/languages/bash'
+import c from 'highlight.js/lib/languages/c'
+import cpp from 'highlight.js/lib/languages/cpp'
+import csharp from 'highlight.js/lib/languages/csharp'
+import css from 'highlight.js/lib/languages/css'
+import java from 'highlight.js/lib/languages/java'
+import javascript from 'highlight.js/lib/languages/javascript'
+import json from 'highlight.js/lib/languages/json'
+import python from 'highlight.js/lib/languages/python'
+import sql from 'highlight.js/lib/languages/sql'
+import typescript from 'highlight.js/lib/languages/typescript'
+import xml from 'highlight.js/lib/languages/xml'
+import type { CodeLanguage } from './nodes/types/node-description'
+
+// Only the languages which can be selected are bundled
+hljs.registerLanguage('bash', bash)
+hljs.registerLanguage('c', c)
+hljs.registerLanguage('cpp', cpp)
+hljs.registerLanguage('csharp', csharp)
+hljs.registerLanguage('css', css)
+hljs.registerLanguage('html', xml)
+hljs.registerLanguage('java', java)
+hljs.registerLanguage('javascript', javascript)
+hljs.registerLanguage('json', json)
+hljs.registerLanguage('python', python)
+hljs.registerLanguage('sql', sql)
+hljs.registerLanguage('typescript', typescript)
+
+/**
+ * Names of the languages of code blocks as shown to authors.
+ */
+export const codeLanguages: Record<CodeLanguage, string> = {
+  plaintext: 'Plain text',
+  bash: 'Bash',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  css: 'CSS',
+  html: 'HTML',
+  java: 'Java',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  python: 'Python',
+  sql: 'SQL',
+  typescript: 'TypeScript',
+}
+
+export function isCodeLanguage(value: unknown): value is CodeLanguage {
+  return typeof value === 'string' && Object.keys(codeLanguages).includes(value)
+}
+
+/**
+ * Highlights code as HTML with the `hljs-*` classes of highlight.js. The text
+ * content of the result is exactly the code, so that positions in the code
+ * map to positions in the rendered DOM.
+ */
+export function highlightCode(code: string, language: CodeLanguage): string {
+  if (language === 'plaintext') return escapeHtml(code)
+
+  return hljs.highlight(code, { language, ignoreIllegals: true }).value
+}
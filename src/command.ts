@@ -1,3 +1,12 @@
+import type { ClipboardTransfer } from './clipboard'
+import type {
+  HeadingLevel,
+  JSONValue,
+  ListType,
+} from './nodes/types/node-description'
+import type { MarkType } from './rich-text'
+import type { CursorMovement } from './state/cursor-movement'
+
 export enum Command {
   InsertText = 'insertText',
   InsertNewElement = 'insertNewElement',
@@ -5,9 +14,48 @@ export enum Command {
   DeleteForward = 'deleteForward',
   DeleteBackward = 'deleteBackward',
   AddMultipleChoice = 'addMultipleChoice',
+  AddCloze = 'addCloze',
+  AddTextInput = 'addTextInput',
+  AddOrdering = 'addOrdering',
+  AddMatching = 'addMatching',
   AddParagraph = 'addParagraph',
+  AddImage = 'addImage',
+  AddFormula = 'addFormula',
+  AddCodeBlock = 'addCodeBlock',
+  ToggleMark = 'toggleMark',
+  SetLink = 'setLink',
+  SetBlank = 'setBlank',
+  SetHeading = 'setHeading',
+  ToggleList = 'toggleList',
+  Indent = 'indent',
+  Outdent = 'outdent',
+  MoveUp = 'moveUp',
+  MoveDown = 'moveDown',
+  Copy = 'copy',
+  Cut = 'cut',
+  Paste = 'paste',
+  InsertContent = 'insertContent',
+  MoveCursor = 'moveCursor',
+  Undo = 'undo',
+  Redo = 'redo',
 }
 
 export type CommandPayload<O extends Command> = O extends Command.InsertText
   ? [string]
-  : []
+  : O extends Command.Copy | Command.Cut | Command.Paste
+    ? [ClipboardTransfer]
+    : O extends Command.ToggleMark
+      ? [MarkType]
+      : O extends Command.SetLink
+        ? [href: string | null]
+        : O extends Command.SetBlank
+          ? [alternatives: string[] | null]
+          : O extends Command.SetHeading
+            ? [level: HeadingLevel | null]
+            : O extends Command.ToggleList
+              ? [ListType]
+              : O extends Command.MoveCursor
+                ? [CursorMovement, extend: boolean]
+                : O extends Command.InsertContent
+                  ? [JSONValue<'root'>]
+                  : []
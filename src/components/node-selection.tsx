@@ -0,0 +1,74 @@
+import { isEqual } from 'es-toolkit'
+import { useLayoutEffect, useRef, useState } from 'react'
+import { type Cursor, isNodeSelection } from '../selection'
+import { isKeyType } from '../state'
+
+export interface NodeSelectionProps {
+  cursor: Cursor | null
+}
+
+/**
+ * Overlay which outlines a node when it is selected as a whole (like a
+ * multiple choice exercise). The native selection of such a node is hardly
+ * visible in most browsers. Like `RemoteCursors` it must be placed in a
+ * positioned container next to the editable element.
+ */
+export function NodeSelection({ cursor }: NodeSelectionProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [rect, setRect] = useState<Rect | null>(null)
+
+  // The selected element moves with every change of the document, so that
+  // the outline is measured after each render
+  useLayoutEffect(() => {
+    const updateRect = () => {
+      const newRect =
+        overlayRef.current != null && cursor != null
+          ? getRect(cursor, overlayRef.current.getBoundingClientRect())
+          : null
+
+      setRect((rect) => (isEqual(rect, newRect) ? rect : newRect))
+    }
+
+    updateRect()
+    window.addEventListener('resize', updateRect)
+
+    return () => window.removeEventListener('resize', updateRect)
+  })
+
+  return (
+    <div
+      ref={overlayRef}
+      className="pointer-events-none absolute inset-0"
+      aria-hidden
+    >
+      {rect != null ? (
+        <div
+          className="absolute rounded-md outline-2 outline-offset-2 outline-blue-500"
+          style={rect}
+        />
+      ) : null}
+    </div>
+  )
+}
+
+interface Rect {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+function getRect(cursor: Cursor, origin: DOMRect): Rect | null {
+  const { key } = cursor.start
+
+  // Texts are never selected as a whole but only by a caret or a range
+  if (!isNodeSelection(cursor) || isKeyType('text', key)) return null
+
+  const element = document.getElementById(key)
+
+  if (element == null) return null
+
+  const { top, left, width, height } = element.getBoundingClientRect()
+
+  return { top: top - origin.top, left: left - origin.left, width, height }
+}
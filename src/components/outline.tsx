@@ -0,0 +1,62 @@
+import type { HeadingLevel } from '../nodes/types/node-description'
+import { isKeyType, type Key, type ReadonlyState, rootKey } from '../state'
+
+export interface OutlineHeading {
+  key: Key<'heading'>
+  level: HeadingLevel
+  text: string
+}
+
+/**
+ * Returns all headings of the document in document order.
+ */
+export function getOutline(state: ReadonlyState): OutlineHeading[] {
+  return state
+    .getEntry(rootKey)
+    .value.filter((key) => isKeyType('heading', key))
+    .map((key) => {
+      const { level, value } = state.getEntry(key).value
+
+      return {
+        key,
+        level: state.getEntry(level).value,
+        text: state.getEntry(value).value,
+      }
+    })
+}
+
+export interface OutlineProps {
+  headings: OutlineHeading[]
+  onSelect: (key: Key<'heading'>) => void
+}
+
+/**
+ * Table of contents of the document. Clicking a heading moves the cursor to
+ * it.
+ */
+export function Outline({ headings, onSelect }: OutlineProps) {
+  return (
+    <nav className="not-prose text-sm">
+      <h2 className="font-bold mb-2">Outline</h2>
+      {headings.length === 0 ? (
+        <p className="text-gray-500">No headings yet</p>
+      ) : (
+        <ul>
+          {headings.map(({ key, level, text }) => (
+            <li key={key} style={{ paddingLeft: `${level - 1}rem` }}>
+              <button
+                type="button"
+                className="text-left hover:underline"
+                // Keep the focus in the editor so that the new cursor is shown
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => onSelect(key)}
+              >
+                {text !== '' ? text : 'Untitled'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </nav>
+  )
+}
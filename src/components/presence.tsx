@@ -0,0 +1,155 @@
+import { Fragment, useLayoutEffect, useRef, useState } from 'react'
+import type { Peer, User } from '../presence'
+import { getDomRange, isCollapsed, isNodeSelection } from '../selection'
+
+export interface RemoteCursorsProps {
+  peers: Peer[]
+}
+
+/**
+ * Overlay which shows the carets and selections of all other peers. It must
+ * be placed in a positioned container next to the editable element (and not
+ * inside it), so that it does not interfere with the DOM selection.
+ */
+export function RemoteCursors({ peers }: RemoteCursorsProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [markers, setMarkers] = useState<Marker[]>([])
+
+  useLayoutEffect(() => {
+    const updateMarkers = () => {
+      if (overlayRef.current == null) return
+
+      const origin = overlayRef.current.getBoundingClientRect()
+
+      setMarkers(peers.flatMap((peer) => getMarker(peer, origin) ?? []))
+    }
+
+    updateMarkers()
+    window.addEventListener('resize', updateMarkers)
+
+    return () => window.removeEventListener('resize', updateMarkers)
+  }, [peers])
+
+  return (
+    <div
+      ref={overlayRef}
+      className="pointer-events-none absolute inset-0"
+      aria-hidden
+    >
+      {markers.map(({ clientId, user, selection, caret }) => (
+        <Fragment key={clientId}>
+          {selection.map((rect) => (
+            <div
+              key={`${rect.top}:${rect.left}`}
+              className="absolute opacity-25"
+              style={{ ...rect, backgroundColor: user.color }}
+            />
+          ))}
+          {caret != null ? (
+            <div
+              className="absolute w-0.5"
+              style={{
+                top: caret.top,
+                left: caret.left,
+                height: caret.height,
+                backgroundColor: user.color,
+              }}
+            >
+              <span
+                className="absolute bottom-full left-0 rounded px-1 text-xs whitespace-nowrap text-white"
+                style={{ backgroundColor: user.color }}
+              >
+                {user.name}
+              </span>
+            </div>
+          ) : null}
+        </Fragment>
+      ))}
+    </div>
+  )
+}
+
+export interface ConnectedUsersProps {
+  user: User | null
+  peers: Peer[]
+}
+
+/**
+ * List of all users who are currently editing the document.
+ */
+export function ConnectedUsers({ user, peers }: ConnectedUsersProps) {
+  return (
+    <ul className="not-prose flex flex-row flex-wrap gap-2 mb-4">
+      {user != null ? (
+        <li
+          className="badge text-white"
+          style={{ backgroundColor: user.color }}
+        >
+          {user.name} (you)
+        </li>
+      ) : null}
+      {peers.map(({ clientId, user }) => (
+        <li
+          key={clientId}
+          className="badge text-white"
+          style={{ backgroundColor: user.color }}
+        >
+          {user.name}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface Marker {
+  clientId: number
+  user: User
+  selection: Rect[]
+  caret: Rect | null
+}
+
+interface Rect {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+function getMarker(
+  { clientId, user, cursor }: Peer,
+  origin: DOMRect,
+): Marker | null {
+  if (cursor == null) return null
+
+  const range = getDomRange(cursor)
+
+  if (range == null) return null
+
+  const toRect = ({ top, left, width, height }: DOMRect): Rect => ({
+    top: top - origin.top,
+    left: left - origin.left,
+    width,
+    height,
+  })
+
+  const caretRange = range.cloneRange()
+  caretRange.collapse(false)
+
+  // Collapsed ranges inside empty elements have no client rects
+  const caretElement =
+    range.endContainer instanceof Element
+      ? range.endContainer
+      : range.endContainer.parentElement
+  const caretRect =
+    caretRange.getClientRects()[0] ?? caretElement?.getBoundingClientRect()
+
+  return {
+    clientId,
+    user,
+    selection:
+      isCollapsed(cursor) && !isNodeSelection(cursor)
+        ? []
+        : Array.from(range.getClientRects(), toRect),
+    caret: caretRect != null ? toRect(caretRect) : null,
+  }
+}
@@ -0,0 +1,169 @@
+import { isPlainObject } from 'es-toolkit'
+import type * as Y from 'yjs'
+import { getHandler } from './nodes/handler'
+import { nodeSchemas, type ValidationIssue, validateJson } from './nodes/schema'
+import type { JSONValue } from './nodes/types/node-description'
+import type { ReadonlyState, WritableState } from './state'
+import { isKey, isKeyType, type Key, parseType, rootKey } from './state/key'
+
+/**
+ * Version of the document format. It must be increased together with a new
+ * migration whenever a change of the node descriptions makes stored documents
+ * invalid.
+ */
+export const documentVersion = 1
+
+/**
+ * Document in the format which is stored in files and in the clipboard.
+ */
+export interface StoredDocument {
+  version: number
+  content: JSONValue<'root'>
+}
+
+export type ParseResult =
+  | { success: true; content: JSONValue<'root'> }
+  | { success: false; issues: ValidationIssue[] }
+
+/**
+ * Migrations of the document format. The migration for version `n` converts
+ * the content of a document of version `n - 1` into version `n`.
+ */
+const migrations: Record<number, (content: unknown[]) => unknown[]> = {}
+
+/**
+ * Parses a stored document. Older versions are migrated to the current
+ * version. A plain list of elements is treated as a document of version 1,
+ * which had no version field.
+ */
+export function parseDocument(data: unknown): ParseResult {
+  const { version, content } = Array.isArray(data)
+    ? { version: 1, content: data as unknown }
+    : isPlainObject(data)
+      ? data
+      : { version: undefined, content: undefined }
+
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return {
+      success: false,
+      issues: [{ path: 'version', message: 'Expected a version number' }],
+    }
+  }
+  if ((version as number) > documentVersion) {
+    return {
+      success: false,
+      issues: [
+        {
+          path: 'version',
+          message: `Version ${version} is newer than the supported version ${documentVersion}`,
+        },
+      ],
+    }
+  }
+  if (!Array.isArray(content)) {
+    return {
+      success: false,
+      issues: [{ path: 'content', message: 'Expected a list of elements' }],
+    }
+  }
+
+  const migrated = migrate(content, version as number)
+  const issues = validateJson('root', migrated, 'content')
+
+  return issues.length === 0
+    ? { success: true, content: migrated as JSONValue<'root'> }
+    : { success: false, issues }
+}
+
+export function toStoredDocument(content: JSONValue<'root'>): StoredDocument {
+  return { version: documentVersion, content }
+}
+
+/**
+ * Version of the shared document. Documents which were created before the
+ * version was stored have version 1.
+ */
+export function getDocumentVersion(doc: Y.Doc): number {
+  const version = doc.getMap('meta').get('version')
+
+  return typeof version === 'number' ? version : 1
+}
+
+export function setDocumentVersion(doc: Y.Doc) {
+  doc.getMap('meta').set('version', documentVersion)
+}
+
+/**
+ * Migrates a shared document of an older version (like one which was stored
+ * in the IndexedDB) by replacing its entries. The document is left unchanged
+ * when the migrated content is invalid, so that no content is lost.
+ */
+export function upgradeDocument(state: WritableState): ValidationIssue[] {
+  if (getDocumentVersion(state.doc) >= documentVersion) return []
+
+  const content = migrate(
+    readStoredValue(state, rootKey) as unknown[],
+    getDocumentVersion(state.doc),
+  )
+  const issues = validateJson('root', content)
+
+  if (issues.length > 0) return issues
+
+  state.transact(() => {
+    state.entries.clear()
+    state.texts.clear()
+    getHandler('root').insert(state, null, content as JSONValue<'root'>)
+    setDocumentVersion(state.doc)
+  })
+
+  return []
+}
+
+function migrate(content: unknown[], version: number): unknown[] {
+  let result = content
+
+  for (let next = version + 1; next <= documentVersion; next++) {
+    result = migrations[next]?.(result) ?? result
+  }
+
+  return result
+}
+
+/**
+ * Reads an entry without its node handler, since the handlers expect entries
+ * of the current version. Missing children are left out.
+ */
+function readStoredValue(state: ReadonlyState, key: Key): unknown {
+  if (isKeyType('text', key)) return getHandler('text').read(state, key)
+
+  const type = parseType(key)
+  const { value } = state.entries.get(key) as { value: unknown }
+  const readChild = (child: unknown) =>
+    isKey(child) && state.entries.has(child)
+      ? readStoredValue(state, child)
+      : undefined
+  const schema = nodeSchemas[type]
+
+  switch (schema.kind) {
+    case 'primitive':
+      return value
+    case 'wrapped':
+      return { type, value: readChild(value) }
+    case 'array':
+      return Array.isArray(value)
+        ? value.map(readChild).filter((child) => child !== undefined)
+        : []
+    case 'object':
+      return {
+        type,
+        ...Object.fromEntries(
+          Object.keys(schema.children)
+            .map((name) => [
+              name,
+              readChild(isPlainObject(value) ? value[name] : undefined),
+            ])
+            .filter(([, child]) => child !== undefined),
+        ),
+      }
+  }
+}
@@ -0,0 +1,184 @@
+import { strToU8, zipSync } from 'fflate'
+import { toHtml } from './clipboard'
+import type { ConversionResult } from './markdown'
+import type { JSONValue } from './nodes/types/node-description'
+import { richTextToHtml } from './rich-text'
+
+type RootElement = JSONValue<'root'>[number]
+
+/**
+ * Converts the content into an H5P package of the content type "Column".
+ * Multiple choice exercises become "Multiple Choice" contents, the elements
+ * between them are joined into "Text" contents. The package contains no
+ * libraries, so the content types must be installed on the H5P platform (as
+ * they are on Moodle and edu-sharing).
+ */
+export function toH5p(
+  content: JSONValue<'root'>,
+  title: string,
+): ConversionResult<Uint8Array<ArrayBuffer>> {
+  const warnings: string[] = []
+  const columnContent: H5pColumnItem[] = []
+  let texts: string[] = []
+
+  const addText = () => {
+    if (texts.length === 0) return
+
+    columnContent.push(
+      createColumnItem(libraries.text, 'Text', { text: texts.join('') }),
+    )
+    texts = []
+  }
+
+  content.forEach((element, index) => {
+    if (element.type === 'multipleChoice') {
+      addText()
+      columnContent.push(
+        createColumnItem(
+          libraries.multipleChoice,
+          'Multiple Choice',
+          toMultiChoiceParams(element),
+        ),
+      )
+    } else if (exportedAsText.includes(element.type)) {
+      texts.push(toH5pHtml(element))
+    } else {
+      warnings.push(
+        `Element ${index + 1}: ${elementNames[element.type]} cannot be exported to H5P and was left out.`,
+      )
+    }
+  })
+
+  addText()
+
+  const h5pJson = {
+    title,
+    language: 'und',
+    mainLibrary: libraries.column.machineName,
+    embedTypes: ['div'],
+    license: 'U',
+    preloadedDependencies: Object.values(libraries),
+  }
+
+  const files = {
+    'h5p.json': strToU8(JSON.stringify(h5pJson)),
+    'content/content.json': strToU8(JSON.stringify({ content: columnContent })),
+  }
+
+  // fflate always creates archives in an `ArrayBuffer`
+  return { value: zipSync(files) as Uint8Array<ArrayBuffer>, warnings }
+}
+
+interface H5pLibrary {
+  machineName: string
+  majorVersion: number
+  minorVersion: number
+}
+
+interface H5pColumnItem {
+  content: {
+    library: string
+    params: unknown
+    subContentId: string
+    metadata: { contentType: string; license: string; title: string }
+  }
+  useSeparator: 'auto'
+}
+
+const libraries = {
+  column: { machineName: 'H5P.Column', majorVersion: 1, minorVersion: 18 },
+  text: { machineName: 'H5P.AdvancedText', majorVersion: 1, minorVersion: 1 },
+  multipleChoice: {
+    machineName: 'H5P.MultiChoice',
+    majorVersion: 1,
+    minorVersion: 16,
+  },
+} satisfies Record<string, H5pLibrary>
+
+const exportedAsText: RootElement['type'][] = [
+  'paragraph',
+  'heading',
+  'bulletList',
+  'orderedList',
+  'formula',
+  'codeBlock',
+]
+
+const elementNames: Record<RootElement['type'], string> = {
+  paragraph: 'The paragraph',
+  heading: 'The heading',
+  bulletList: 'The list',
+  orderedList: 'The list',
+  multipleChoice: 'The multiple choice exercise',
+  cloze: 'The cloze exercise',
+  textInput: 'The text input exercise',
+  ordering: 'The ordering exercise',
+  matching: 'The matching exercise',
+  image: 'The image',
+  formula: 'The formula',
+  codeBlock: 'The code block',
+}
+
+function createColumnItem(
+  { machineName, majorVersion, minorVersion }: H5pLibrary,
+  contentType: string,
+  params: unknown,
+): H5pColumnItem {
+  return {
+    content: {
+      library: `${machineName} ${majorVersion}.${minorVersion}`,
+      params,
+      subContentId: crypto.randomUUID(),
+      metadata: { contentType, license: 'U', title: contentType },
+    },
+    useSeparator: 'auto',
+  }
+}
+
+function toMultiChoiceParams({
+  mode,
+  task,
+  answers,
+}: JSONValue<'multipleChoice'>) {
+  return {
+    question: task.map(toH5pHtml).join(''),
+    answers: answers.map(({ isCorrect, answer, feedback }) => ({
+      text: `<div>${toH5pText(answer)}</div>`,
+      correct: isCorrect,
+      tipsAndFeedback: {
+        tip: '',
+        chosenFeedback:
+          feedback != null
+            ? `<div>${feedback.map(toH5pHtml).join('')}</div>`
+            : '',
+        notChosenFeedback: '',
+      },
+    })),
+    behaviour: {
+      type: mode === 'single' ? 'single' : 'multi',
+      singleAnswer: mode === 'single',
+      enableRetry: true,
+      enableSolutionsButton: true,
+      randomAnswers: false,
+    },
+    UI: {
+      checkAnswerButton: 'Check',
+      tryAgainButton: 'Try again',
+      showSolutionButton: 'Show solution',
+    },
+    media: { disableImageZooming: false },
+  }
+}
+
+/**
+ * HTML for H5P, which does not preserve line breaks in text.
+ */
+function toH5pHtml(element: RootElement): string {
+  if (element.type === 'codeBlock') return toHtml(element)
+
+  return toHtml(element).replace(/\n/g, '<br>')
+}
+
+function toH5pText(text: JSONValue<'text'>): string {
+  return richTextToHtml(text).replace(/\n/g, '<br>')
+}
@@ -0,0 +1,190 @@
+import { escape as escapeHtml } from 'es-toolkit'
+
+/**
+ * Wraps the HTML of a document (see `StateManager.renderHtml()`) into a
+ * standalone page. Styles and the script which checks the exercises are
+ * inlined, so that the file works offline and without the editor.
+ */
+export function toHtmlDocument({
+  title,
+  body,
+}: {
+  title: string
+  body: string
+}): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${style}</style>
+</head>
+<body>
+<main>${body}</main>
+<script>${script}</script>
+</body>
+</html>
+`
+}
+
+const style = `
+body { margin: 0; font-family: system-ui, sans-serif; line-height: 1.5; color: #1f2937; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+p, h1, h2, h3, li, figcaption { white-space: pre-wrap; }
+img { max-width: 100%; }
+figure { margin: 1.5rem 0; }
+figcaption small { display: block; opacity: 0.7; }
+pre { padding: 1rem; border-radius: 0.5rem; overflow-x: auto; background: #0d1117; color: #c9d1d9; }
+.formula { margin: 1rem 0; overflow-x: auto; }
+.exercise { margin: 1.5rem 0; padding: 1rem; border-radius: 0.75rem; background: #f3f4f6; }
+.exercise-title { margin: 0; font-weight: 500; font-size: 0.875rem; }
+.exercise-task { font-weight: bold; }
+.exercise textarea { box-sizing: border-box; width: 100%; font: inherit; }
+.exercise-actions { display: flex; align-items: center; gap: 1rem; margin-top: 0.5rem; }
+.answers { padding: 0; list-style: none; }
+.answers label { cursor: pointer; }
+.feedback, .sample-solution { margin-left: 1.5rem; padding-left: 0.5rem; border-left: 2px solid #0ea5e9; font-size: 0.875rem; }
+.items li { margin-bottom: 0.25rem; }
+.items li:first-child [data-move="-1"], .items li:last-child [data-move="1"] { visibility: hidden; }
+.item-buttons { margin-left: 0.5rem; }
+.pairs { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+.term, .match { display: flex; align-items: flex-start; gap: 0.5rem; margin-bottom: 0.5rem; }
+.term > :not(select), .match > :not(b) { margin: 0; }
+.correct { color: #15803d; border-color: #15803d; }
+.wrong { color: #b91c1c; border-color: #b91c1c; }
+.hljs-comment, .hljs-quote { color: #8b949e; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type, .hljs-doctag { color: #ff7b72; }
+.hljs-string, .hljs-regexp, .hljs-meta .hljs-string { color: #a5d6ff; }
+.hljs-number, .hljs-literal, .hljs-attr, .hljs-attribute, .hljs-variable, .hljs-built_in { color: #79c0ff; }
+.hljs-title, .hljs-title.function_, .hljs-section { color: #d2a8ff; }
+.hljs-name, .hljs-tag, .hljs-selector-class, .hljs-selector-id { color: #7ee787; }
+.hljs-params, .hljs-subst { color: #c9d1d9; }
+`
+
+/**
+ * Script of the exported document. It is written in plain JavaScript since
+ * it is inlined as it is. The texts of the results are the ones of the
+ * learner views in the preview.
+ */
+const script = `
+function decodeSolution(exercise) {
+  var binary = atob(exercise.dataset.solution)
+  var bytes = Uint8Array.from(binary, function (char) { return char.charCodeAt(0) })
+  return JSON.parse(new TextDecoder().decode(bytes))
+}
+
+function normalize(text) {
+  return text.trim().replace(/\\s+/g, ' ')
+}
+
+function showResult(exercise, isCorrect, text) {
+  var output = exercise.querySelector('.exercise-actions output')
+  output.textContent = text
+  output.className = isCorrect ? 'correct' : 'wrong'
+}
+
+function countResult(exercise, results, noun) {
+  var correct = results.filter(Boolean).length
+  showResult(
+    exercise,
+    correct === results.length,
+    correct === results.length
+      ? 'All ' + noun + ' are correct!'
+      : correct + ' of ' + results.length + ' ' + noun + ' are correct.',
+  )
+}
+
+function markResult(element, isCorrect) {
+  element.classList.toggle('correct', isCorrect)
+  element.classList.toggle('wrong', !isCorrect)
+}
+
+var checks = {
+  multipleChoice: function (exercise, solution) {
+    var inputs = Array.from(exercise.querySelectorAll('.answers input'))
+    if (!inputs.some(function (input) { return input.checked })) return
+    inputs.forEach(function (input, index) {
+      var feedback = input.closest('li').querySelector('.feedback')
+      var html = input.checked ? solution.feedback[index] : null
+      feedback.innerHTML = html == null ? '' : html
+      feedback.hidden = html == null
+    })
+    var isSolved = inputs.every(function (input, index) {
+      return input.checked === solution.correct[index]
+    })
+    showResult(exercise, isSolved, isSolved ? 'Correct!' : 'Not quite. Try again!')
+  },
+  cloze: function (exercise, solution) {
+    var blanks = Array.from(exercise.querySelectorAll('input.blank'))
+    countResult(exercise, blanks.map(function (blank, index) {
+      var isCorrect = solution[index].some(function (answer) {
+        return normalize(answer) === normalize(blank.value)
+      })
+      markResult(blank, isCorrect)
+      return isCorrect
+    }), 'blanks')
+  },
+  textInput: function (exercise, solution, button) {
+    var sample = exercise.querySelector('.sample-solution')
+    if (sample == null) {
+      sample = document.createElement('div')
+      sample.className = 'sample-solution'
+      sample.innerHTML = solution
+      exercise.append(sample)
+      button.textContent = 'Hide sample solution'
+    } else {
+      sample.remove()
+      button.textContent = 'Show sample solution'
+    }
+  },
+  ordering: function (exercise, solution) {
+    var items = Array.from(exercise.querySelectorAll('.items > li'))
+    var isSolved = items.every(function (item, index) {
+      return Number(item.dataset.position) === solution[index]
+    })
+    showResult(exercise, isSolved, isSolved ? 'Correct!' : 'Not quite. Try again!')
+  },
+  matching: function (exercise, solution) {
+    var selects = Array.from(exercise.querySelectorAll('.term select'))
+    countResult(exercise, selects.map(function (select, index) {
+      var isCorrect = select.value !== '' && Number(select.value) === solution[index]
+      markResult(select, isCorrect)
+      return isCorrect
+    }), 'pairs')
+  },
+}
+
+function resetResult(exercise) {
+  var output = exercise.querySelector('.exercise-actions output')
+  output.textContent = ''
+  exercise.querySelectorAll('.correct, .wrong').forEach(function (element) {
+    element.classList.remove('correct', 'wrong')
+  })
+}
+
+document.addEventListener('click', function (event) {
+  var button = event.target.closest('button')
+  var exercise = button && button.closest('.exercise')
+  if (exercise == null) return
+
+  if (button.hasAttribute('data-move')) {
+    var item = button.closest('li')
+    if (button.dataset.move === '-1' && item.previousElementSibling) {
+      item.parentElement.insertBefore(item, item.previousElementSibling)
+    } else if (button.dataset.move === '1' && item.nextElementSibling) {
+      item.parentElement.insertBefore(item.nextElementSibling, item)
+    }
+    resetResult(exercise)
+  } else if (button.hasAttribute('data-check')) {
+    checks[exercise.dataset.exercise](exercise, decodeSolution(exercise), button)
+  }
+})
+
+document.addEventListener('input', function (event) {
+  var exercise = event.target.closest('.exercise')
+  if (exercise != null && exercise.dataset.exercise !== 'textInput') {
+    resetResult(exercise)
+  }
+})
+`
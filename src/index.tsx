@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { Suspense } from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
 
@@ -7,7 +7,9 @@ if (rootEl) {
   const root = ReactDOM.createRoot(rootEl)
   root.render(
     <React.StrictMode>
-      <App />
+      <Suspense fallback={<p className="p-10">Loading document…</p>}>
+        <App />
+      </Suspense>
     </React.StrictMode>,
   )
 }
@@ -0,0 +1,1005 @@
+import { isEqual } from 'es-toolkit'
+import { isCodeLanguage } from './code'
+import type {
+  CodeLanguage,
+  JSONValue,
+  Marks,
+  TextSpan,
+} from './nodes/types/node-description'
+import { getPlainText, toRichText, toSpans } from './rich-text'
+
+type RootElement = JSONValue<'root'>[number]
+type ContentElement = JSONValue<'content'>[number]
+
+/**
+ * Result of a conversion. Parts of the input which have no equivalent in the
+ * target format are reported as `warnings` instead of being dropped silently.
+ */
+export interface ConversionResult<T> {
+  value: T
+  warnings: string[]
+}
+
+/**
+ * Converts the content of the editor to Markdown. Multiple choice exercises
+ * are written as task lists (`- [x] 4`) after their task, the feedback of an
+ * answer is indented below it.
+ */
+export function toMarkdown(
+  content: JSONValue<'root'>,
+): ConversionResult<string> {
+  const warnings: string[] = []
+  const blocks = content.map((element) => blockToMarkdown(element, warnings))
+
+  return { value: `${blocks.join('\n\n')}\n`, warnings }
+}
+
+/**
+ * Converts Markdown into content of the editor. A task list becomes a
+ * multiple choice exercise whose task is the paragraph before the list.
+ */
+export function fromMarkdown(
+  markdown: string,
+): ConversionResult<JSONValue<'root'>> {
+  const warnings: string[] = []
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+
+  return { value: parseBlocks(lines, 1, warnings), warnings }
+}
+
+function blockToMarkdown(element: RootElement, warnings: string[]): string {
+  switch (element.type) {
+    case 'paragraph':
+      return inlineToMarkdown(element.value)
+        .split('\n')
+        .map(escapeLineStart)
+        .join('\\\n')
+    case 'heading':
+      return `${'#'.repeat(element.level)} ${inlineToMarkdown(element.value).replace(/\n/g, ' ')}`
+    case 'bulletList':
+    case 'orderedList':
+      return element.items
+        .map(({ value }, index) => {
+          const marker = element.type === 'bulletList' ? '- ' : `${index + 1}. `
+
+          return marker + indent(contentToMarkdown(value, warnings), marker)
+        })
+        .join('\n')
+    case 'multipleChoice': {
+      const correctCount = element.answers.filter((a) => a.isCorrect).length
+
+      if (element.mode === 'multiple' && correctCount === 1) {
+        warnings.push(
+          'Markdown cannot store whether several answers can be picked. The multiple choice exercise with one correct answer will be imported as a single choice exercise.',
+        )
+      }
+
+      const answers = element.answers.map(({ isCorrect, answer, feedback }) => {
+        const marker = '- '
+        const item = `[${isCorrect ? 'x' : ' '}] ${inlineToMarkdown(answer)}`
+        const feedbackBlocks =
+          feedback != null && feedback.length > 0
+            ? `\n\n${contentToMarkdown(feedback, warnings)}`
+            : ''
+
+        return marker + indent(item + feedbackBlocks, marker)
+      })
+
+      return [contentToMarkdown(element.task, warnings), answers.join('\n')]
+        .filter((block) => block !== '')
+        .join('\n\n')
+    }
+    case 'formula':
+      return `$$\n${getPlainText(element.value)}\n$$`
+    case 'codeBlock': {
+      const code = getPlainText(element.code)
+      const fence = '`'.repeat(Math.max(3, getLongestRun(code, '`') + 1))
+      const language = element.language !== 'plaintext' ? element.language : ''
+
+      return `${fence}${language}\n${code}\n${fence}`
+    }
+    case 'image':
+      if (
+        element.caption != null ||
+        element.license != null ||
+        element.author != null ||
+        element.sourceUrl != null
+      ) {
+        warnings.push(
+          `The caption and attribution of the image "${element.alt}" are not supported by Markdown and were left out.`,
+        )
+      }
+
+      return `![${escapeText(element.alt)}](${escapeUrl(element.src)})`
+    case 'cloze':
+      warnings.push(
+        'Cloze exercises are not supported by Markdown. The text was exported without blanks.',
+      )
+
+      return contentToMarkdown([...element.task, ...element.text], warnings)
+    case 'textInput':
+      warnings.push(
+        'Text input exercises are not supported by Markdown. The task was exported without its solution.',
+      )
+
+      return contentToMarkdown(element.task, warnings)
+    case 'ordering':
+      warnings.push(
+        'Ordering exercises are not supported by Markdown. The items were exported as a numbered list in the correct order.',
+      )
+
+      return [
+        contentToMarkdown(element.task, warnings),
+        element.items
+          .map(({ value }, index) => `${index + 1}. ${inlineToMarkdown(value)}`)
+          .join('\n'),
+      ].join('\n\n')
+    case 'matching':
+      warnings.push(
+        'Matching exercises are not supported by Markdown. The pairs were exported as a list.',
+      )
+
+      return [
+        contentToMarkdown(element.task, warnings),
+        element.pairs
+          .map(
+            ({ term, match }) =>
+              `- ${contentToInlineMarkdown(term)} – ${contentToInlineMarkdown(match)}`,
+          )
+          .join('\n'),
+      ].join('\n\n')
+  }
+}
+
+function contentToMarkdown(
+  content: ContentElement[],
+  warnings: string[],
+): string {
+  return content
+    .map((element, index) => {
+      const next = content[index + 1]
+      // Nested lists directly follow the paragraph of their list item
+      const separator =
+        next == null ? '' : next.type === 'paragraph' ? '\n\n' : '\n'
+
+      return blockToMarkdown(element, warnings) + separator
+    })
+    .join('')
+}
+
+function contentToInlineMarkdown(content: ContentElement[]): string {
+  return content
+    .map((element) =>
+      element.type === 'paragraph'
+        ? inlineToMarkdown(element.value).replace(/\n/g, ' ')
+        : element.items
+            .map(({ value }) => contentToInlineMarkdown(value))
+            .join(', '),
+    )
+    .join(' ')
+}
+
+/**
+ * Indents all lines after the first one to the width of a list marker.
+ */
+function indent(text: string, marker: string): string {
+  const indentation = ' '.repeat(marker.length)
+
+  return text
+    .split('\n')
+    .map((line, index) =>
+      index === 0 || line === '' ? line : indentation + line,
+    )
+    .join('\n')
+}
+
+/**
+ * Delimiters of the marks in the order in which they are nested. Blanks have
+ * no Markdown equivalent and are written as plain text.
+ */
+type Wrapper = { link: string } | 'bold' | 'italic' | 'underline'
+
+function inlineToMarkdown(value: JSONValue<'text'>): string {
+  const spans = toSpans(value)
+  let result = ''
+  let open: Wrapper[] = []
+  let italicDelimiter = '_'
+
+  const openWrapper = (wrapper: Wrapper, spanIndex: number) => {
+    if (wrapper === 'bold') return '**'
+    if (wrapper === 'underline') return '<u>'
+    if (wrapper === 'italic') {
+      // `_` does not work inside of words
+      const end = spans.findIndex((s, i) => i > spanIndex && !s.marks?.italic)
+      const before = spans[spanIndex - 1]?.text.slice(-1) ?? ''
+      const after = spans[end]?.text[0] ?? ''
+
+      italicDelimiter =
+        isWordCharacter(before) || isWordCharacter(after) ? '*' : '_'
+
+      return italicDelimiter
+    }
+    return '['
+  }
+  const closeWrapper = (wrapper: Wrapper) => {
+    if (wrapper === 'bold') return '**'
+    if (wrapper === 'italic') return italicDelimiter
+    if (wrapper === 'underline') return '</u>'
+    return `](${escapeUrl(wrapper.link)})`
+  }
+
+  for (const [index, { text, marks }] of spans.entries()) {
+    const wrappers = getWrappers(marks)
+    let common = 0
+
+    while (
+      common < open.length &&
+      common < wrappers.length &&
+      isEqual(open[common], wrappers[common])
+    ) {
+      common++
+    }
+
+    // Marks can only be closed in the reverse order of opening them
+    result += open.slice(common).reverse().map(closeWrapper).join('')
+    result += wrappers
+      .slice(common)
+      .map((wrapper) => openWrapper(wrapper, index))
+      .join('')
+    open = wrappers
+
+    if (marks?.math) {
+      result += `$${text}$`
+    } else if (marks?.code) {
+      const fence = '`'.repeat(getLongestRun(text, '`') + 1)
+      const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : ''
+
+      result += fence + padding + text + padding + fence
+    } else {
+      result += escapeText(text)
+    }
+  }
+
+  return result + open.reverse().map(closeWrapper).join('')
+}
+
+function getWrappers(marks: Marks | undefined): Wrapper[] {
+  const wrappers: Wrapper[] = []
+
+  if (marks?.link != null) wrappers.push({ link: marks.link.href })
+  if (marks?.bold) wrappers.push('bold')
+  if (marks?.italic) wrappers.push('italic')
+  if (marks?.underline) wrappers.push('underline')
+
+  return wrappers
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]$<~]/g, '\\$&')
+}
+
+function escapeUrl(url: string): string {
+  return url.replace(/[\s()<>]/g, encodeURIComponent)
+}
+
+/**
+ * Escapes characters at the start of a line which would start another block
+ * like a heading or a list.
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)([#>+\-|=])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/, '$1\\$2')
+}
+
+function getLongestRun(text: string, char: string): number {
+  return Math.max(
+    0,
+    ...(text.match(new RegExp(`\\${char}+`, 'g')) ?? []).map(
+      (run) => run.length,
+    ),
+  )
+}
+
+/**
+ * Parses the given lines into blocks. `firstLine` is the line number of the
+ * first line in the Markdown document, which is used in warnings.
+ */
+function parseBlocks(
+  lines: string[],
+  firstLine: number,
+  warnings: string[],
+): RootElement[] {
+  const elements: RootElement[] = []
+  // Whether the last element is a paragraph which can become the task of a
+  // following task list
+  let isTaskCandidate = false
+  let i = 0
+
+  const warn = (message: string) => {
+    warnings.push(`Line ${firstLine + i}: ${message}`)
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const lineNumber = firstLine + i
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    const fence = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/.exec(line)
+    const heading = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/.exec(line)
+    const image = new RegExp(`${imagePattern.source}\\s*$`).exec(line)
+    const listMarker = getListMarker(line)
+    let element: RootElement | null = null
+
+    if (fence != null) {
+      const [, delimiter, info] = fence
+      const end = lines.findIndex(
+        (other, index) =>
+          index > i &&
+          other.trim().startsWith(delimiter) &&
+          /^[`~]+$/.test(other.trim()),
+      )
+      const codeLines = lines.slice(i + 1, end !== -1 ? end : undefined)
+
+      element = {
+        type: 'codeBlock',
+        language: parseCodeLanguage(info, warn),
+        code: codeLines.join('\n'),
+      }
+      i = end !== -1 ? end + 1 : lines.length
+    } else if (line.trim().startsWith('$$')) {
+      const rest = line.trim().slice(2)
+
+      if (rest.endsWith('$$')) {
+        element = { type: 'formula', value: rest.slice(0, -2).trim() }
+        i++
+      } else {
+        const end = lines.findIndex(
+          (other, index) => index > i && other.trim().endsWith('$$'),
+        )
+        const formulaLines = [
+          rest,
+          ...lines.slice(i + 1, end !== -1 ? end + 1 : undefined),
+        ]
+
+        element = {
+          type: 'formula',
+          value: formulaLines
+            .join('\n')
+            .replace(/\$\$\s*$/, '')
+            .trim(),
+        }
+        i = end !== -1 ? end + 1 : lines.length
+      }
+    } else if (heading != null) {
+      const [, hashes, text = ''] = heading
+
+      if (hashes.length > 3) {
+        warn(`Headings of level ${hashes.length} are imported as level 3.`)
+      }
+
+      element = {
+        type: 'heading',
+        level: Math.min(hashes.length, 3) as 1 | 2 | 3,
+        value: parseInline(text, {}, warn),
+      }
+      i++
+    } else if (/^ {0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      warn('Horizontal rules are not supported and were left out.')
+      i++
+      continue
+    } else if (listMarker != null) {
+      const { list, end } = parseList(lines, i, firstLine, warnings)
+
+      if (list.type === 'multipleChoice' && isTaskCandidate) {
+        const task = elements.pop()
+
+        if (task?.type === 'paragraph') list.task = [task]
+      } else if (list.type === 'multipleChoice') {
+        warn('The multiple choice exercise has no task.')
+      }
+
+      element = list
+      i = end
+    } else if (/^ {0,3}>/.test(line)) {
+      const end = findBlockEnd(lines, i, (other) => /^ {0,3}>/.test(other))
+
+      warn('Block quotes are not supported. Their content was imported as is.')
+      elements.push(
+        ...parseBlocks(
+          lines.slice(i, end).map((other) => other.replace(/^ {0,3}> ?/, '')),
+          lineNumber,
+          warnings,
+        ),
+      )
+      i = end
+      isTaskCandidate = false
+      continue
+    } else if (isTableStart(lines, i)) {
+      const end = findBlockEnd(lines, i, (other) => other.includes('|'))
+
+      warn('Tables are not supported. Each row was imported as a paragraph.')
+
+      for (const [index, row] of lines.slice(i, end).entries()) {
+        // The second row separates the header from the body
+        if (index === 1) continue
+
+        const cells = row
+          .trim()
+          .replace(/^\||\|$/g, '')
+          .split('|')
+          .map((cell) => cell.trim())
+
+        elements.push({
+          type: 'paragraph',
+          value: parseInline(cells.join(' | '), {}, warn),
+        })
+      }
+      i = end
+      isTaskCandidate = false
+      continue
+    } else if (/^ {0,3}<(?!u>|https?:)[a-zA-Z!/]/.test(line)) {
+      const end = findBlockEnd(lines, i, (other) => other.trim() !== '')
+
+      warn('HTML is not supported and was imported as text.')
+      element = { type: 'paragraph', value: lines.slice(i, end).join('\n') }
+      i = end
+    } else if (image != null) {
+      const [, alt, src] = image
+
+      element = { type: 'image', src, alt: unescapeText(alt) }
+      i++
+    } else {
+      const end = findBlockEnd(
+        lines,
+        i,
+        (other, index) => index === i || !isBlockStart(other),
+      )
+      const underline = lines[end]
+      const setextLevel =
+        underline != null && /^ {0,3}=+\s*$/.test(underline)
+          ? 1
+          : underline != null && /^ {0,3}-+\s*$/.test(underline)
+            ? 2
+            : null
+      const text = joinParagraphLines(lines.slice(i, end))
+
+      element =
+        setextLevel != null
+          ? {
+              type: 'heading',
+              level: setextLevel,
+              value: parseInline(text.replace(/\n/g, ' '), {}, warn),
+            }
+          : { type: 'paragraph', value: parseInline(text, {}, warn) }
+      i = setextLevel != null ? end + 1 : end
+    }
+
+    elements.push(element)
+    isTaskCandidate = element.type === 'paragraph'
+  }
+
+  return elements
+}
+
+/**
+ * Returns the index of the first line after `start` which does not belong to
+ * the block any more.
+ */
+function findBlockEnd(
+  lines: string[],
+  start: number,
+  belongsToBlock: (line: string, index: number) => boolean,
+): number {
+  let end = start
+
+  while (
+    end < lines.length &&
+    lines[end].trim() !== '' &&
+    belongsToBlock(lines[end], end)
+  ) {
+    end++
+  }
+
+  return end
+}
+
+/**
+ * Returns whether a line interrupts a paragraph.
+ */
+function isBlockStart(line: string): boolean {
+  return (
+    /^ {0,3}(`{3,}|~{3,}|\$\$|#{1,6}(\s|$)|>|[-*+]\s|1[.)]\s)/.test(line) ||
+    /^ {0,3}([-*_=])(\s*\1)*\s*$/.test(line)
+  )
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  const delimiterRow = lines[index + 1]
+
+  return (
+    lines[index].includes('|') &&
+    delimiterRow != null &&
+    /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(delimiterRow)
+  )
+}
+
+/**
+ * Joins the lines of a paragraph. Line breaks marked with a backslash or two
+ * spaces are kept, other line breaks become spaces.
+ */
+function joinParagraphLines(lines: string[]): string {
+  return lines
+    .map((line, index) => {
+      const isLast = index === lines.length - 1
+      const trimmed = line.trim()
+
+      if (isLast) return trimmed
+      if (/\\$/.test(trimmed)) return `${trimmed.slice(0, -1)}\n`
+      if (/ {2}$/.test(line)) return `${trimmed}\n`
+      return `${trimmed} `
+    })
+    .join('')
+}
+
+const codeLanguageAliases = new Map<string, CodeLanguage>([
+  ['', 'plaintext'],
+  ['text', 'plaintext'],
+  ['txt', 'plaintext'],
+  ['sh', 'bash'],
+  ['shell', 'bash'],
+  ['c++', 'cpp'],
+  ['cs', 'csharp'],
+  ['c#', 'csharp'],
+  ['js', 'javascript'],
+  ['py', 'python'],
+  ['ts', 'typescript'],
+  ['xml', 'html'],
+])
+
+function parseCodeLanguage(
+  info: string,
+  warn: (message: string) => void,
+): CodeLanguage {
+  const name = info.toLowerCase()
+
+  if (isCodeLanguage(name)) return name
+
+  const alias = codeLanguageAliases.get(name)
+
+  if (alias != null) return alias
+
+  warn(`Code in "${info}" is not supported and was imported as plain text.`)
+
+  return 'plaintext'
+}
+
+interface ListMarker {
+  indent: number
+  contentIndent: number
+  isOrdered: boolean
+  /**
+   * `-`, `*` or `+` for bullet lists and `.` or `)` for ordered lists. A
+   * different delimiter starts a new list.
+   */
+  delimiter: string
+}
+
+function getListMarker(line: string): ListMarker | null {
+  const match = /^( *)([-*+]|\d{1,9}[.)])( +|$)/.exec(line)
+
+  if (match == null) return null
+
+  const [marker, indentation, bullet] = match
+
+  return {
+    indent: indentation.length,
+    contentIndent: marker.length,
+    isOrdered: /\d/.test(bullet),
+    delimiter: bullet.slice(-1),
+  }
+}
+
+interface ParsedList {
+  list:
+    | JSONValue<'bulletList'>
+    | JSONValue<'orderedList'>
+    | JSONValue<'multipleChoice'>
+  end: number
+}
+
+/**
+ * Parses the list which starts at `start`. A bullet list where every item is
+ * a task (`- [ ]` or `- [x]`) is parsed as a multiple choice exercise.
+ */
+function parseList(
+  lines: string[],
+  start: number,
+  firstLine: number,
+  warnings: string[],
+): ParsedList {
+  const first = getListMarker(lines[start]) as ListMarker
+  const items: { lines: string[]; start: number; contentIndent: number }[] = []
+  let i = start
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const marker = getListMarker(line)
+    const current = items[items.length - 1]
+    const indentation = line.length - line.trimStart().length
+
+    if (
+      marker != null &&
+      marker.indent === first.indent &&
+      marker.delimiter === first.delimiter
+    ) {
+      items.push({
+        lines: [line.slice(marker.contentIndent)],
+        start: i,
+        contentIndent: marker.contentIndent,
+      })
+    } else if (line.trim() === '') {
+      const next = lines.slice(i).find((other) => other.trim() !== '')
+      const nextMarker = next != null ? getListMarker(next) : null
+      const nextIndentation =
+        next != null ? next.length - next.trimStart().length : 0
+
+      if (
+        next == null ||
+        (nextIndentation < current.contentIndent &&
+          (nextMarker == null || nextMarker.indent !== first.indent))
+      ) {
+        break
+      }
+
+      current.lines.push('')
+    } else if (indentation >= current.contentIndent) {
+      current.lines.push(line.slice(current.contentIndent))
+    } else if (marker != null && marker.indent > first.indent) {
+      // Nested lists which are indented less than the content of the item
+      current.lines.push(line.slice(marker.indent))
+    } else if (
+      marker == null &&
+      current.lines[current.lines.length - 1].trim() !== '' &&
+      !isBlockStart(line)
+    ) {
+      // Lazy continuation of the paragraph of the item
+      current.lines.push(line.trim())
+    } else {
+      break
+    }
+
+    i++
+  }
+
+  const tasks = items.map(({ lines }) => /^\[([ xX])\](?:\s+|$)/.exec(lines[0]))
+
+  if (!first.isOrdered && tasks.every((task) => task != null)) {
+    const answers = items.map((item, index) => {
+      const task = tasks[index] as RegExpExecArray
+      const itemStart = firstLine + item.start
+      const blocks = parseBlocks(
+        [item.lines[0].slice(task[0].length), ...item.lines.slice(1)],
+        itemStart,
+        warnings,
+      )
+      // Blocks after the text of the answer are its feedback
+      const answer = blocks[0]?.type === 'paragraph' ? blocks.shift() : null
+      const feedback = toContent(blocks, itemStart, warnings)
+
+      return {
+        type: 'multipleChoiceAnswer' as const,
+        isCorrect: task[1] !== ' ',
+        answer: answer?.type === 'paragraph' ? answer.value : '',
+        ...(feedback.length > 0 ? { feedback } : {}),
+      }
+    })
+    const position = `Line ${firstLine + start}`
+
+    if (!answers.some(({ isCorrect }) => isCorrect)) {
+      warnings.push(
+        `${position}: The exercise has no correct answer, the first answer was marked as correct.`,
+      )
+      answers[0].isCorrect = true
+    }
+
+    if (answers.length < 2) {
+      warnings.push(
+        `${position}: Exercises need at least two answers, an empty answer was added.`,
+      )
+      answers.push({
+        type: 'multipleChoiceAnswer',
+        isCorrect: false,
+        answer: '',
+      })
+    }
+
+    const correctCount = answers.filter((answer) => answer.isCorrect).length
+
+    return {
+      list: {
+        type: 'multipleChoice',
+        mode: correctCount === 1 ? 'single' : 'multiple',
+        task: [{ type: 'paragraph', value: '' }],
+        answers,
+      },
+      end: i,
+    }
+  }
+
+  if (tasks.some((task) => task != null)) {
+    warnings.push(
+      `Line ${firstLine + start}: Lists which mix tasks and other items are imported as normal lists.`,
+    )
+  }
+
+  return {
+    list: {
+      type: first.isOrdered ? 'orderedList' : 'bulletList',
+      items: items.map((item) => {
+        const itemStart = firstLine + item.start
+        const content = toContent(
+          parseBlocks(item.lines, itemStart, warnings),
+          itemStart,
+          warnings,
+        )
+
+        return {
+          type: 'listItem' as const,
+          value:
+            content.length > 0 ? content : [{ type: 'paragraph', value: '' }],
+        }
+      }),
+    },
+    end: i,
+  }
+}
+
+/**
+ * Only paragraphs and lists can be nested into lists, other blocks are
+ * converted into paragraphs.
+ */
+function toContent(
+  elements: RootElement[],
+  lineNumber: number,
+  warnings: string[],
+): ContentElement[] {
+  const content = elements.flatMap((element): ContentElement[] => {
+    switch (element.type) {
+      case 'paragraph':
+      case 'bulletList':
+      case 'orderedList':
+        return [element]
+      case 'heading':
+        return [{ type: 'paragraph', value: element.value }]
+      case 'formula':
+        return [
+          {
+            type: 'paragraph',
+            value: [
+              { text: getPlainText(element.value), marks: { math: true } },
+            ],
+          },
+        ]
+      case 'codeBlock':
+        return [
+          {
+            type: 'paragraph',
+            value: [
+              { text: getPlainText(element.code), marks: { code: true } },
+            ],
+          },
+        ]
+      case 'image':
+        return [{ type: 'paragraph', value: element.alt }]
+      case 'multipleChoice':
+        return [
+          ...element.task,
+          ...element.answers.map(
+            ({ isCorrect, answer }): ContentElement => ({
+              type: 'paragraph',
+              value: [
+                { text: `[${isCorrect ? 'x' : ' '}] ` },
+                ...toSpans(answer),
+              ],
+            }),
+          ),
+        ]
+      default:
+        return []
+    }
+  })
+
+  if (content.some((element, index) => element !== elements[index])) {
+    warnings.push(
+      `Line ${lineNumber}: Only paragraphs and lists are supported inside of list items. Other blocks were imported as paragraphs.`,
+    )
+  }
+
+  return content
+}
+
+/**
+ * Parses inline Markdown into spans with the given `marks`.
+ */
+function parseInline(
+  text: string,
+  marks: Marks,
+  warn: (message: string) => void,
+): JSONValue<'text'> {
+  const spans: TextSpan[] = []
+  let plain = ''
+  let i = 0
+
+  const flush = () => {
+    if (plain !== '') spans.push({ text: plain, marks })
+    plain = ''
+  }
+  const pushNested = (inner: string, nestedMarks: Marks) => {
+    flush()
+    spans.push(...toSpans(parseInline(inner, nestedMarks, warn)))
+  }
+  const pushAtom = (atom: string, atomMarks: Marks) => {
+    flush()
+    spans.push({ text: atom, marks: atomMarks })
+  }
+
+  while (i < text.length) {
+    const rest = text.slice(i)
+    const char = text[i]
+    const previous = text[i - 1] ?? ''
+    const image = char === '!' ? imagePattern.exec(rest) : null
+    const link = char === '[' ? linkPattern.exec(rest) : null
+
+    if (char === '\\' && /^[!-/:-@[-`{-~]/.test(text[i + 1] ?? '')) {
+      plain += text[i + 1]
+      i += 2
+    } else if (char === '`') {
+      const [fence] = /^`+/.exec(rest) as RegExpExecArray
+      const end = text.indexOf(fence, i + fence.length)
+
+      if (end === -1) {
+        plain += fence
+        i += fence.length
+      } else {
+        const code = text.slice(i + fence.length, end)
+        const isPadded = /^ .*[^ ].* $/.test(code)
+
+        pushAtom(isPadded ? code.slice(1, -1) : code, { ...marks, code: true })
+        i = end + fence.length
+      }
+    } else if (char === '$' && /^\$[^\s$]/.test(rest)) {
+      // Like in Pandoc the closing `$` must not follow a space or precede a
+      // digit, so that prices like $5 and $10 are not formulas
+      const end = findClosing(text, '$', i + 1, (index) => {
+        return text[index - 1] !== ' ' && !/\d/.test(text[index + 1] ?? '')
+      })
+
+      if (end === -1) {
+        plain += char
+        i++
+      } else {
+        pushAtom(text.slice(i + 1, end), { ...marks, math: true })
+        i = end + 1
+      }
+    } else if (rest.startsWith('**') || rest.startsWith('__')) {
+      const delimiter = rest.slice(0, 2)
+      let end = findClosing(text, delimiter, i + 2)
+
+      // With `***` the bold text ends at the last two characters
+      while (end !== -1 && text[end + 2] === delimiter[0]) end++
+
+      if (end === -1) {
+        plain += delimiter
+        i += 2
+      } else {
+        pushNested(text.slice(i + 2, end), { ...marks, bold: true })
+        i = end + 2
+      }
+    } else if (char === '*' || (char === '_' && !isWordCharacter(previous))) {
+      const end = findClosing(
+        text,
+        char,
+        i + 1,
+        (index) => char === '*' || !isWordCharacter(text[index + 1] ?? ''),
+      )
+
+      if (end === -1 || end === i + 1) {
+        plain += char
+        i++
+      } else {
+        pushNested(text.slice(i + 1, end), { ...marks, italic: true })
+        i = end + 1
+      }
+    } else if (rest.startsWith('<u>') && text.includes('</u>', i)) {
+      const end = text.indexOf('</u>', i)
+
+      pushNested(text.slice(i + 3, end), { ...marks, underline: true })
+      i = end + 4
+    } else if (rest.startsWith('~~') && text.includes('~~', i + 2)) {
+      const end = text.indexOf('~~', i + 2)
+
+      warn('Strikethrough is not supported. The text was imported without it.')
+      pushNested(text.slice(i + 2, end), marks)
+      i = end + 2
+    } else if (image != null) {
+      warn(
+        'Images inside of text are not supported. Their alternative text was imported instead.',
+      )
+      plain += unescapeText(image[1])
+      i += image[0].length
+    } else if (link != null) {
+      const [match, label, href] = link
+
+      pushNested(label, { ...marks, link: { href: decodeUrl(href) } })
+      i += match.length
+    } else if (/^<https?:\/\/[^>\s]+>/.test(rest)) {
+      const [link] = /^<https?:\/\/[^>\s]+>/.exec(rest) as RegExpExecArray
+      const href = link.slice(1, -1)
+
+      pushAtom(href, { ...marks, link: { href } })
+      i += link.length
+    } else if (/^<\/?[a-zA-Z][^>]*>/.test(rest)) {
+      const [tag] = /^<\/?[a-zA-Z][^>]*>/.exec(rest) as RegExpExecArray
+
+      warn(`The HTML tag ${tag} is not supported and was imported as text.`)
+      plain += tag
+      i += tag.length
+    } else {
+      plain += char
+      i++
+    }
+  }
+
+  flush()
+
+  return toRichText(spans)
+}
+
+// Labels of links and alternative texts of images may contain escaped
+// brackets, the title after the URL is ignored
+const imagePattern = /^!\[((?:\\.|[^\]\\])*)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/
+const linkPattern = /^\[((?:\\.|[^\]\\])*)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/
+
+/**
+ * Returns the index of the next unescaped `delimiter` after `from` (for which
+ * `isValid` holds) or -1.
+ */
+function findClosing(
+  text: string,
+  delimiter: string,
+  from: number,
+  isValid: (index: number) => boolean = () => true,
+): number {
+  for (
+    let index = text.indexOf(delimiter, from);
+    index !== -1;
+    index = text.indexOf(delimiter, index + 1)
+  ) {
+    const backslashes = /\\*$/.exec(text.slice(from, index))?.[0].length ?? 0
+
+    if (backslashes % 2 === 0 && isValid(index)) return index
+  }
+
+  return -1
+}
+
+function isWordCharacter(char: string): boolean {
+  return /[\p{L}\p{N}]/u.test(char)
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~])/g, '$1')
+}
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURI(url)
+  } catch {
+    return url
+  }
+}
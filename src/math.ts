@@ -0,0 +1,19 @@
+import katex from 'katex'
+
+/**
+ * Typesets a LaTeX formula as HTML. Invalid LaTeX is rendered as an error
+ * message instead of throwing, since formulas are invalid while they are typed.
+ */
+export function renderMath(
+  latex: string,
+  {
+    displayMode = false,
+    output = 'htmlAndMathml',
+  }: { displayMode?: boolean; output?: 'htmlAndMathml' | 'mathml' } = {},
+): string {
+  return katex.renderToString(latex, {
+    displayMode,
+    output,
+    throwOnError: false,
+  })
+}
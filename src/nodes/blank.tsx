@@ -0,0 +1,85 @@
+import { createContext, type ReactNode, useContext } from 'react'
+import { isKeyType, type Key, type ReadonlyState } from '../state'
+
+/**
+ * State of the blanks of a cloze exercise in the learner view. Blanks are
+ * identified by the key of their text and their offset within it.
+ */
+export interface BlankState {
+  values: Record<string, string>
+  setValue: (id: string, value: string) => void
+  results: Record<string, boolean> | null
+}
+
+export const BlankContext = createContext<BlankState | null>(null)
+
+export function getBlankId(textKey: Key<'text'>, offset: number): string {
+  return `${textKey}:${offset}`
+}
+
+/**
+ * Returns whether the text belongs to the text of a cloze exercise. Only there
+ * learners fill in blanks, elsewhere (like in the task or in pasted content)
+ * the text of a blank is shown.
+ */
+export function isInClozeText(state: ReadonlyState, key: Key<'text'>): boolean {
+  let child: Key = key
+  let parent = state.getEntry(key).parent
+
+  while (parent != null) {
+    if (isKeyType('cloze', parent)) {
+      return state.getEntry(parent).value.text === child
+    }
+
+    child = parent
+    parent = state.getEntry(parent).parent
+  }
+
+  return false
+}
+
+/**
+ * Compares answers while ignoring surrounding and repeated whitespace.
+ */
+export function isAcceptedAnswer(answers: string[], value: string): boolean {
+  const normalize = (text: string) => text.trim().replace(/\s+/g, ' ')
+
+  return answers.some((answer) => normalize(answer) === normalize(value))
+}
+
+/**
+ * Input of a learner for a blank. Outside of a cloze exercise the text of the
+ * blank (`children`) is shown instead.
+ */
+export function BlankInput({
+  id,
+  size,
+  children,
+}: {
+  id: string
+  size: number
+  children: ReactNode
+}) {
+  const context = useContext(BlankContext)
+
+  if (context == null) return children
+
+  const result = context.results?.[id]
+
+  return (
+    <input
+      type="text"
+      aria-label="Blank"
+      size={Math.max(size, 4)}
+      value={context.values[id] ?? ''}
+      onChange={(event) => context.setValue(id, event.target.value)}
+      className={`input input-sm input-bordered mx-1 w-auto ${
+        result === true
+          ? 'input-success'
+          : result === false
+            ? 'input-error'
+            : ''
+      }`}
+    />
+  )
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react'
+import type { IndexPath } from '../selection'
+import type { Entry, Key, ReadonlyState, StateManager } from '../state'
+import { getTextKeys } from '../state/cursor-movement'
+import { BlankContext, getBlankId, isAcceptedAnswer } from './blank'
+import { ContentHandler } from './content'
+import { renderExerciseHeader, renderExerciseHtml } from './helper'
+import type { NodeHandler } from './types/node-handler'
+
+export const ClozeHandler: NodeHandler<'cloze'> = {
+  insert(state, parent, { task, text }) {
+    return state.insert({
+      type: 'cloze',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.insert(state, key, task).key,
+        text: ContentHandler.insert(state, key, text).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'cloze',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.createEmpty(state, key).key,
+        text: ContentHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { task, text } = state.getEntry(key).value
+    return {
+      type: 'cloze',
+      task: ContentHandler.read(state, task),
+      text: ContentHandler.read(state, text),
+    }
+  },
+  render(manager, entry) {
+    const { key, value } = entry
+
+    if (manager.mode === 'preview') {
+      return <ClozeExercise key={key} manager={manager} entry={entry} />
+    }
+
+    return (
+      <div
+        id={key}
+        key={key}
+        data-key={key}
+        className="card bg-base-300 text-base-content p-4 mb-4"
+      >
+        {renderExerciseHeader(manager, key, 'CLOZE')}
+        <div className="font-bold">
+          {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+        </div>
+        {ContentHandler.render(manager, manager.state.getEntry(value.text))}
+        <p
+          className="text-xs font-sans opacity-60 select-none"
+          contentEditable={false}
+        >
+          Select a word and press "Blank" to turn it into a gap.
+        </p>
+      </div>
+    )
+  },
+  renderHtml(state, { value }) {
+    const task = ContentHandler.renderHtml(state, state.getEntry(value.task))
+    const text = ContentHandler.renderHtml(state, state.getEntry(value.text))
+
+    return renderExerciseHtml({
+      type: 'cloze',
+      title: 'CLOZE',
+      // The inputs of the blanks are rendered in the same order
+      solution: getBlanks(state, value.text).map(({ answers }) => answers),
+      content: `<div class="exercise-task">${task}</div>${text}`,
+    })
+  },
+  selectStart(state, { value }) {
+    ContentHandler.selectStart(state, state.getEntry(value.task))
+  },
+  selectEnd(state, { value }) {
+    ContentHandler.selectEnd(state, state.getEntry(value.text))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if ((part === 'task' || part === 'text') && next != null) {
+      const child = state.getEntry(value[part])
+
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.task) return 'task'
+    if (childKey === value.text) return 'text'
+    throw new Error('Child not found')
+  },
+  onCommand: {
+    // Like for multiple choice exercises deleting at the boundaries must not
+    // merge the exercise with the surrounding content
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+interface Blank {
+  id: string
+  answers: string[]
+}
+
+/**
+ * Returns all blanks below `key` together with their accepted answers.
+ */
+function getBlanks(state: ReadonlyState, key: Key): Blank[] {
+  return getTextKeys(state, key).flatMap((textKey) => {
+    let offset = 0
+
+    return state.getTextSpans(textKey).flatMap(({ text, marks }) => {
+      const spanOffset = offset
+      offset += text.length
+
+      if (marks?.blank == null) return []
+
+      return [
+        {
+          id: getBlankId(textKey, spanOffset),
+          answers: [text, ...marks.blank.alternatives],
+        },
+      ]
+    })
+  })
+}
+
+/**
+ * Learner view of a cloze exercise. The blanks of the text are rendered as
+ * inputs by `TextHandler` which reads their values from the `BlankContext`.
+ */
+function ClozeExercise({
+  manager,
+  entry,
+}: {
+  manager: StateManager<'root'>
+  entry: Entry<'cloze'>
+}) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [results, setResults] = useState<Record<string, boolean> | null>(null)
+  const { key, value } = entry
+
+  const setValue = (id: string, newValue: string) => {
+    setValues((values) => ({ ...values, [id]: newValue }))
+    setResults(null)
+  }
+
+  const checkAnswers = () => {
+    const blanks = getBlanks(manager.state, value.text)
+
+    setResults(
+      Object.fromEntries(
+        blanks.map(({ id, answers }) => [
+          id,
+          isAcceptedAnswer(answers, values[id] ?? ''),
+        ]),
+      ),
+    )
+  }
+
+  const resultValues = Object.values(results ?? {})
+  const correctCount = resultValues.filter(Boolean).length
+
+  return (
+    <div
+      id={key}
+      data-key={key}
+      className="card bg-base-300 text-base-content p-4 mb-4"
+    >
+      <p className="font-medium font-sans">CLOZE</p>
+      <div className="font-bold">
+        {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+      </div>
+      <BlankContext value={{ values, setValue, results }}>
+        {ContentHandler.render(manager, manager.state.getEntry(value.text))}
+      </BlankContext>
+      <div className="flex flex-row items-center gap-4 mt-2">
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={checkAnswers}
+        >
+          Check
+        </button>
+        {results != null ? (
+          <output
+            className={
+              correctCount === resultValues.length
+                ? 'text-success'
+                : 'text-error'
+            }
+          >
+            {correctCount === resultValues.length
+              ? 'All blanks are correct!'
+              : `${correctCount} of ${resultValues.length} blanks are correct.`}
+          </output>
+        ) : null}
+      </div>
+    </div>
+  )
+}
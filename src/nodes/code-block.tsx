@@ -0,0 +1,235 @@
+import { codeLanguages, highlightCode, isCodeLanguage } from '../code'
+import type { IndexPath } from '../selection'
+import type { Entry, WritableState } from '../state'
+import { createPrimitiveHandler } from './helper'
+import { TextHandler } from './text'
+import type { NodeHandler } from './types/node-handler'
+
+export const CodeLanguageHandler: NodeHandler<'codeLanguage'> =
+  createPrimitiveHandler({ type: 'codeLanguage', emptyValue: 'plaintext' })
+
+export const CodeBlockHandler: NodeHandler<'codeBlock'> = {
+  insert(state, parent, { language, code }) {
+    return state.insert({
+      type: 'codeBlock',
+      parent,
+      createValue: (key) => ({
+        language: CodeLanguageHandler.insert(state, key, language).key,
+        code: TextHandler.insert(state, key, code).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'codeBlock',
+      parent,
+      createValue: (key) => ({
+        language: CodeLanguageHandler.createEmpty(state, key).key,
+        code: TextHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { language, code } = state.getEntry(key).value
+    return {
+      type: 'codeBlock',
+      language: CodeLanguageHandler.read(state, language),
+      // Code is plain text without marks
+      code: state.getEntry(code).value,
+    }
+  },
+  render(manager, { key, value }) {
+    const language = manager.state.getEntry(value.language).value
+    const code = manager.state.getEntry(value.code)
+
+    return (
+      <div id={key} key={key} data-key={key} className="relative">
+        {manager.mode === 'edit' ? (
+          <div className="absolute top-2 right-2" contentEditable={false}>
+            <select
+              aria-label="Language"
+              className="select select-xs w-auto"
+              value={language}
+              onChange={(event) => {
+                const newLanguage = event.target.value
+
+                if (isCodeLanguage(newLanguage)) {
+                  manager.update((state) =>
+                    state.update(value.language, newLanguage),
+                  )
+                }
+              }}
+            >
+              {Object.entries(codeLanguages).map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+        <pre>
+          <code className={`language-${language}`}>
+            <span
+              id={code.key}
+              data-key={code.key}
+              className="text"
+              // biome-ignore lint/security/noDangerouslySetInnerHtml: Generated by highlight.js which escapes the code
+              dangerouslySetInnerHTML={{
+                __html: highlightCode(code.value, language),
+              }}
+            />
+          </code>
+        </pre>
+      </div>
+    )
+  },
+  renderHtml(state, { value }) {
+    const language = state.getEntry(value.language).value
+    const code = state.getEntry(value.code).value
+
+    return `<pre><code class="language-${language}">${highlightCode(code, language)}</code></pre>`
+  },
+  selectStart(state, { value }) {
+    TextHandler.selectStart(state, state.getEntry(value.code))
+  },
+  selectEnd(state, { value }) {
+    TextHandler.selectEnd(state, state.getEntry(value.code))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if (part === 'language' && next != null) {
+      const child = state.getEntry(value.language)
+
+      CodeLanguageHandler.select(
+        state,
+        child,
+        next as IndexPath<'codeLanguage'>,
+      )
+    } else if (part === 'code' && next != null) {
+      const child = state.getEntry(value.code)
+
+      TextHandler.select(state, child, next as IndexPath<'text'>)
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.language) return 'language'
+    if (childKey === value.code) return 'code'
+    throw new Error('Child not found')
+  },
+  onCommand: {
+    insertNewElement(state, { value }, [_, index], [__, endIndex]) {
+      if (typeof index !== 'number' || index !== endIndex) return null
+
+      state.insertText(value.code, index, '\n')
+      state.setCaret({ key: value.code, index: index + 1 })
+
+      return { success: true }
+    },
+    indent(state, { value }, [_, start], [__, end]) {
+      if (typeof start !== 'number' || typeof end !== 'number') return null
+
+      if (start === end) {
+        state.insertText(value.code, start, indentation)
+        state.setCaret({ key: value.code, index: start + indentation.length })
+
+        return { success: true }
+      }
+
+      const code = state.getEntry(value.code)
+      const lineStarts = getLineStarts(code.value, start, end)
+
+      // Inserting from the back keeps the earlier line starts valid
+      for (const lineStart of [...lineStarts].reverse()) {
+        state.insertText(code.key, lineStart, indentation)
+      }
+
+      selectRange(
+        state,
+        code,
+        start + indentation.length,
+        end + lineStarts.length * indentation.length,
+      )
+
+      return { success: true }
+    },
+    outdent(state, { value }, [_, start], [__, end]) {
+      if (typeof start !== 'number' || typeof end !== 'number') return null
+
+      const code = state.getEntry(value.code)
+      const lineStarts = getLineStarts(code.value, start, end)
+      let newStart = start
+      let newEnd = end
+
+      for (const lineStart of [...lineStarts].reverse()) {
+        const length = getIndentationLength(code.value, lineStart)
+
+        state.deleteText(code.key, lineStart, length)
+
+        newStart -= Math.max(0, Math.min(length, start - lineStart))
+        newEnd -= Math.max(0, Math.min(length, end - lineStart))
+      }
+
+      selectRange(state, code, newStart, newEnd)
+
+      return { success: true }
+    },
+    // Deleting at the boundaries of the code must not merge the code block
+    // with the surrounding content
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+const indentation = '  '
+
+/**
+ * Returns the indices of the starts of all lines which overlap with the range
+ * from `start` to `end`.
+ */
+function getLineStarts(code: string, start: number, end: number): number[] {
+  const lineStarts = [start > 0 ? code.lastIndexOf('\n', start - 1) + 1 : 0]
+
+  for (let i = code.indexOf('\n', start); i !== -1 && i < end; ) {
+    lineStarts.push(i + 1)
+    i = code.indexOf('\n', i + 1)
+  }
+
+  return lineStarts
+}
+
+/**
+ * Returns the length of the indentation which outdenting removes at the start
+ * of a line: A tab or up to one level of spaces.
+ */
+function getIndentationLength(code: string, lineStart: number): number {
+  if (code[lineStart] === '\t') return 1
+
+  let length = 0
+
+  while (length < indentation.length && code[lineStart + length] === ' ') {
+    length++
+  }
+
+  return length
+}
+
+function selectRange(
+  state: WritableState,
+  { key }: Entry<'text'>,
+  start: number,
+  end: number,
+) {
+  state.setCursor({ start: { key, index: start }, end: { key, index: end } })
+}
@@ -1,13 +1,175 @@
-import { createArrayHandler } from './helper'
+import { isEqual } from 'es-toolkit'
+import type { IndexPath } from '../selection'
+import { type Entry, isKeyType, type Key, type WritableState } from '../state'
+import { HeadingLevelHandler } from './heading'
+import {
+  changeListType,
+  createArrayHandler,
+  getInlineText,
+  liftListItem,
+  wrapInList,
+} from './helper'
 import { ParagraphHandler } from './paragraph'
+import type { ListType } from './types/node-description'
 import type { NodeHandler } from './types/node-handler'
 
-export const ContentHandler: NodeHandler<'content'> = createArrayHandler({
+const ContentArrayHandler = createArrayHandler({
   type: 'content',
   childHandler: ParagraphHandler,
 })
 
-export const RootHandler: NodeHandler<'root'> = createArrayHandler({
+export const ContentHandler: NodeHandler<'content'> = {
+  ...ContentArrayHandler,
+  onCommand: {
+    ...ContentArrayHandler.onCommand,
+    insertNewElement(state, node, start, end) {
+      // Inside of list items Enter starts a new item
+      if (isInListItem(node)) return null
+
+      return (
+        ContentArrayHandler.onCommand.insertNewElement?.(
+          state,
+          node,
+          start,
+          end,
+        ) ?? null
+      )
+    },
+    toggleList(state, node, start, end, type) {
+      if (isInListItem(node)) return null
+
+      return toggleList(state, node, start, end, type)
+    },
+  },
+}
+
+const RootArrayHandler = createArrayHandler({
   type: 'root',
   childHandler: ParagraphHandler,
 })
+
+export const RootHandler: NodeHandler<'root'> = {
+  ...RootArrayHandler,
+  onCommand: {
+    ...RootArrayHandler.onCommand,
+    insertNewElement(state, node, start, end) {
+      const [index, part, textIndex] = start
+      const child = index != null ? state.getEntry(node.value[index]) : null
+      // Enter at the end of a heading continues with an empty paragraph, only
+      // a heading which is split in the middle keeps its type
+      const isAtHeadingEnd =
+        child?.type === 'heading' &&
+        part === 'value' &&
+        textIndex === state.getText(child.value.value).length &&
+        isEqual(start, end)
+      const [newStart, newEnd]: IndexPath<'root'>[] =
+        isAtHeadingEnd && index != null ? [[index], [index]] : [start, end]
+
+      return (
+        RootArrayHandler.onCommand.insertNewElement?.(
+          state,
+          node,
+          newStart,
+          newEnd,
+        ) ?? null
+      )
+    },
+    setHeading(state, { key, value }, [startIndex], [endIndex], level) {
+      const [start, end] = [startIndex ?? 0, endIndex ?? value.length - 1]
+
+      const newChildren = value.map((childKey, index) => {
+        if (index < start || index > end) return childKey
+
+        const child = state.getEntry(childKey)
+
+        if (child.type === 'heading' && level != null) {
+          state.update(child.value.level, level)
+          return childKey
+        }
+
+        const text = getInlineText(state, child)
+
+        if (text == null || (child.type === 'paragraph' && level == null))
+          return childKey
+
+        // The text is moved instead of copied, so that concurrent edits of
+        // collaborators in it are kept
+        const newChild =
+          level != null
+            ? state.insert({
+                type: 'heading',
+                parent: key,
+                createValue: (headingKey) => ({
+                  level: HeadingLevelHandler.insert(state, headingKey, level)
+                    .key,
+                  value: text.key,
+                }),
+              })
+            : state.insert({
+                type: 'paragraph',
+                parent: key,
+                createValue: () => text.key,
+              })
+
+        state.move(text.key, newChild.key)
+
+        return newChild.key
+      })
+
+      state.update(key, newChildren)
+
+      return { success: true }
+    },
+    toggleList,
+  },
+}
+
+/**
+ * Wraps the selected paragraphs in a list. When a list is selected, its type
+ * is changed, or the list is removed when it already has the given type.
+ */
+function toggleList(
+  state: WritableState,
+  { key, value }: Entry<'root' | 'content'>,
+  [startIndex]: IndexPath<'root' | 'content'>,
+  [endIndex]: IndexPath<'root' | 'content'>,
+  type: ListType,
+) {
+  const [start, end] = [startIndex ?? 0, endIndex ?? value.length - 1]
+  const selected = (value as Key[]).slice(start, end + 1)
+  const [first] = selected
+
+  if (
+    selected.length === 1 &&
+    (isKeyType('bulletList', first) || isKeyType('orderedList', first))
+  ) {
+    if (isKeyType(type, first)) {
+      const itemsKey = state.getEntry(first).value.items
+      const { length } = state.getEntry(itemsKey).value
+
+      for (let i = length - 1; i >= 0; i--) liftListItem(state, itemsKey, i)
+    } else {
+      changeListType(state, first, type)
+    }
+
+    return { success: true }
+  }
+
+  if (!selected.every((childKey) => isKeyType('paragraph', childKey)))
+    return null
+
+  const list = wrapInList(state, key, selected, type)
+
+  // TODO: Remove type assertion when possible
+  state.update(key as Key<'content'>, (children) => [
+    ...children.slice(0, start),
+    list.key,
+    ...children.slice(end + 1),
+  ])
+
+  return { success: true }
+}
+
+function isInListItem({ parent }: Entry<'content'>) {
+  return parent != null && isKeyType('listItem', parent)
+}
@@ -0,0 +1,97 @@
+import { renderMath } from '../math'
+import type { Cursor } from '../selection'
+import type { Key } from '../state'
+import { createWrappedHandler } from './helper'
+import { TextHandler } from './text'
+import type { NodeHandler } from './types/node-handler'
+
+export const FormulaHandler: NodeHandler<'formula'> = {
+  ...createWrappedHandler<{ type: 'formula'; childType: 'text' }>({
+    type: 'formula',
+    childHandler: TextHandler,
+  }),
+  read(state, key) {
+    // The LaTeX source is plain text without marks
+    return {
+      type: 'formula',
+      value: state.getEntry(state.getEntry(key).value).value,
+    }
+  },
+  renderHtml(state, { value }) {
+    const latex = state.getEntry(value).value
+
+    return `<div class="formula">${renderMath(latex, { displayMode: true, output: 'mathml' })}</div>`
+  },
+  render(manager, { key, value }) {
+    const text = manager.state.getEntry(value)
+    const html = renderMath(text.value, { displayMode: true })
+
+    if (manager.mode === 'edit' && isInText(manager.state.cursor, value)) {
+      return (
+        <div
+          id={key}
+          key={key}
+          data-key={key}
+          className="card bg-base-300 text-base-content p-4 mb-4"
+        >
+          <span
+            className="text-xs font-sans opacity-60 select-none"
+            contentEditable={false}
+          >
+            LaTeX
+          </span>
+          <div className="font-mono">{TextHandler.render(manager, text)}</div>
+          <div
+            contentEditable={false}
+            // biome-ignore lint/security/noDangerouslySetInnerHtml: Generated by KaTeX which escapes the LaTeX source
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        </div>
+      )
+    }
+
+    return (
+      <div id={key} key={key} data-key={key} className="mb-4">
+        <button
+          type="button"
+          className="w-full cursor-text"
+          contentEditable={false}
+          title={manager.mode === 'edit' ? 'Edit formula' : undefined}
+          onClick={() => {
+            if (manager.mode === 'edit') {
+              manager.update((state) => TextHandler.selectEnd(state, text))
+            }
+          }}
+        >
+          {text.value.trim() !== '' ? (
+            <span
+              // biome-ignore lint/security/noDangerouslySetInnerHtml: Generated by KaTeX which escapes the LaTeX source
+              dangerouslySetInnerHTML={{ __html: html }}
+            />
+          ) : (
+            <span className="font-sans opacity-60">Empty formula</span>
+          )}
+        </button>
+      </div>
+    )
+  },
+  onCommand: {
+    // Formulas can span several lines of LaTeX
+    insertNewElement(state, { value }, [_, index], [__, endIndex]) {
+      if (typeof index !== 'number' || index !== endIndex) return null
+
+      state.insertText(value, index, '\n')
+      state.setCaret({ key: value, index: index + 1 })
+
+      return { success: true }
+    },
+  },
+}
+
+/**
+ * Returns whether the cursor starts or ends in the given text, which means
+ * that the LaTeX source of a formula is edited.
+ */
+function isInText(cursor: Cursor | null, textKey: Key<'text'>): boolean {
+  return cursor?.start.key === textKey || cursor?.end.key === textKey
+}
@@ -1,13 +1,36 @@
 import { type Entry, isKey, type Key, parseType } from '../state'
+import { ClozeHandler } from './cloze'
+import { CodeBlockHandler, CodeLanguageHandler } from './code-block'
 import { ContentHandler, RootHandler } from './content'
+import { FormulaHandler } from './formula'
+import { HeadingHandler, HeadingLevelHandler } from './heading'
+import { ImageHandler, StringHandler } from './image'
+import {
+  BulletListHandler,
+  ListItemHandler,
+  ListItemsHandler,
+  OrderedListHandler,
+} from './list'
+import {
+  MatchingHandler,
+  MatchingPairHandler,
+  MatchingPairsHandler,
+} from './matching'
 import {
   BooleanHandler,
   MultipleChoiceAnswerHandler,
   MultipleChoiceAnswersHandler,
   MultipleChoiceHandler,
+  MultipleChoiceModeHandler,
 } from './multiple-choice'
+import {
+  OrderingHandler,
+  OrderingItemHandler,
+  OrderingItemsHandler,
+} from './ordering'
 import { ParagraphHandler } from './paragraph'
 import { TextHandler } from './text'
+import { TextInputHandler } from './text-input'
 import type { NodeHandler, NodeHandlerOf } from './types/node-handler'
 import { isType, type NodeType } from './types/node-types'
 
@@ -15,11 +38,31 @@ const handlers: { [T in NodeType]: NodeHandler<T> } = {
   root: RootHandler,
   content: ContentHandler,
   paragraph: ParagraphHandler,
+  formula: FormulaHandler,
+  codeBlock: CodeBlockHandler,
+  codeLanguage: CodeLanguageHandler,
+  heading: HeadingHandler,
+  headingLevel: HeadingLevelHandler,
+  bulletList: BulletListHandler,
+  orderedList: OrderedListHandler,
+  listItems: ListItemsHandler,
+  listItem: ListItemHandler,
   text: TextHandler,
   multipleChoice: MultipleChoiceHandler,
+  multipleChoiceMode: MultipleChoiceModeHandler,
+  cloze: ClozeHandler,
+  textInput: TextInputHandler,
+  ordering: OrderingHandler,
+  orderingItems: OrderingItemsHandler,
+  orderingItem: OrderingItemHandler,
+  matching: MatchingHandler,
+  matchingPairs: MatchingPairsHandler,
+  matchingPair: MatchingPairHandler,
   multipleChoiceAnswer: MultipleChoiceAnswerHandler,
   multipleChoiceAnswers: MultipleChoiceAnswersHandler,
   boolean: BooleanHandler,
+  image: ImageHandler,
+  string: StringHandler,
 }
 
 export function getHandler<T extends NodeType>(
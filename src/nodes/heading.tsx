@@ -0,0 +1,119 @@
+import type { IndexPath } from '../selection'
+import { createPrimitiveHandler } from './helper'
+import { TextHandler } from './text'
+import type { NodeHandler } from './types/node-handler'
+
+export const HeadingLevelHandler: NodeHandler<'headingLevel'> =
+  createPrimitiveHandler({ type: 'headingLevel', emptyValue: 1 })
+
+export const HeadingHandler: NodeHandler<'heading'> = {
+  insert(state, parent, { level, value }) {
+    return state.insert({
+      type: 'heading',
+      parent,
+      createValue: (key) => ({
+        level: HeadingLevelHandler.insert(state, key, level).key,
+        value: TextHandler.insert(state, key, value).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'heading',
+      parent,
+      createValue: (key) => ({
+        level: HeadingLevelHandler.createEmpty(state, key).key,
+        value: TextHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { level, value } = state.getEntry(key).value
+    return {
+      type: 'heading',
+      level: HeadingLevelHandler.read(state, level),
+      value: TextHandler.read(state, value),
+    }
+  },
+  render(manager, { key, value }) {
+    const Tag = `h${manager.state.getEntry(value.level).value}` as const
+
+    return (
+      <Tag id={key} key={key} data-key={key}>
+        {TextHandler.render(manager, manager.state.getEntry(value.value))}
+      </Tag>
+    )
+  },
+  renderHtml(state, { value }) {
+    const level = state.getEntry(value.level).value
+    const text = TextHandler.renderHtml(state, state.getEntry(value.value))
+
+    return `<h${level}>${text}</h${level}>`
+  },
+  selectStart(state, { value }) {
+    TextHandler.selectStart(state, state.getEntry(value.value))
+  },
+  selectEnd(state, { value }) {
+    TextHandler.selectEnd(state, state.getEntry(value.value))
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if (part === 'level' && next != null) {
+      const child = state.getEntry(value.level)
+
+      HeadingLevelHandler.select(
+        state,
+        child,
+        next as IndexPath<'headingLevel'>,
+      )
+    } else if (part === 'value' && next != null) {
+      const child = state.getEntry(value.value)
+
+      TextHandler.select(state, child, next as IndexPath<'text'>)
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.level) return 'level'
+    if (childKey === value.value) return 'value'
+    throw new Error('Child not found')
+  },
+  split(state, entry, [part, ...next], newParentKey) {
+    if (part !== 'value' || next == null) return null
+
+    const level = state.getEntry(entry.value.level).value
+    const text = state.getEntry(entry.value.value)
+
+    const newEntry = state.insert({
+      type: 'heading',
+      parent: newParentKey ?? entry.parent,
+      createValue: (key) => {
+        const split = TextHandler.split(
+          state,
+          text,
+          next as IndexPath<'text'>,
+          key,
+        )
+
+        if (split == null) return null
+
+        return {
+          level: HeadingLevelHandler.insert(state, key, level).key,
+          value: split[1].key,
+        }
+      },
+    })
+
+    if (newEntry == null) return null
+
+    return [entry, newEntry]
+  },
+  merge(state, { value }, { value: secondValue }) {
+    return TextHandler.merge(
+      state,
+      state.getEntry(value.value),
+      state.getEntry(secondValue.value),
+    )
+  },
+  onCommand: {},
+}
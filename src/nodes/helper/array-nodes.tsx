@@ -1,14 +1,52 @@
 import type { IndexPath } from '../../selection'
-import type { EntryValue, Key } from '../../state'
+import type { Entry, EntryValue, Key, WritableState } from '../../state'
 import { getHandler } from '../handler'
-import { ParagraphHandler } from '../paragraph'
+import { TextHandler } from '../text'
 import type { Index, JSONValue } from '../types/node-description'
 import type { NodeHandler } from '../types/node-handler'
+import { renderChildHtml } from './html'
+import { getInlineText } from './inline-text'
 
+/**
+ * Creates the handler of a node with a list of children. `minChildren` is the
+ * number of children which cannot be deleted (like the two answers of a
+ * quiz). With `isMovable` the selected children can be moved up and down.
+ */
 export function createArrayHandler<A extends ArrayNodes>({
   type,
   childHandler,
-}: A): NodeHandler<A['type']> {
+  minChildren = 0,
+  isMovable = false,
+}: A & { minChildren?: number; isMovable?: boolean }): NodeHandler<A['type']> {
+  // Removes a child which is selected as a whole (like a multiple choice
+  // exercise) and places the caret next to it
+  function removeChild(
+    state: WritableState,
+    { key, value }: Entry<A['type']>,
+    index: number,
+  ) {
+    const children = (value as Key[]).filter((_, i) => i !== index)
+
+    if (children.length === 0) {
+      const newChild = childHandler.createEmpty(state, key)
+
+      getHandler(newChild).selectStart(state, newChild)
+      children.push(newChild.key)
+    } else if (index > 0) {
+      const previousChild = state.getEntry(children[index - 1])
+
+      getHandler(previousChild).selectEnd(state, previousChild)
+    } else {
+      const nextChild = state.getEntry(children[0])
+
+      getHandler(nextChild).selectStart(state, nextChild)
+    }
+
+    state.update(key, children as EntryValue<A['type']>)
+
+    return { success: true }
+  }
+
   return {
     render(manager, { key, value }) {
       return (
@@ -44,6 +82,9 @@ export function createArrayHandler<A extends ArrayNodes>({
         getHandler(childKey).read(state, childKey),
       ) as JSONValue<A['type']>
     },
+    renderHtml(state, { value }) {
+      return value.map((childKey) => renderChildHtml(state, childKey)).join('')
+    },
     selectStart(state, { value }) {
       const firstChildKey = value[0]
       if (firstChildKey == null) return
@@ -55,17 +96,80 @@ export function createArrayHandler<A extends ArrayNodes>({
     selectEnd(state, { value }) {
       const lastChildKey = value[value.length - 1]
       if (lastChildKey == null) return
-      getHandler(lastChildKey).selectStart(state, state.getEntry(lastChildKey))
+      getHandler(lastChildKey).selectEnd(state, state.getEntry(lastChildKey))
     },
-    split() {
-      return null
+    split(state, entry, [index, ...next], newParentKey) {
+      if (index == null) return null
+
+      const children = entry.value as Key[]
+      const child = state.getEntry(children[index])
+      const newEntry = state.insert({
+        type,
+        parent: newParentKey ?? entry.parent,
+        createValue: (key) => {
+          const rightPart =
+            getHandler(child).split(
+              state,
+              child,
+              next as IndexPath<typeof child.type>,
+              key,
+            )?.[1] ?? childHandler.createEmpty(state, key)
+          const followingChildren = children.slice(index + 1)
+
+          for (const childKey of followingChildren) state.move(childKey, key)
+
+          return [rightPart.key, ...followingChildren] as EntryValue<A['type']>
+        },
+      })
+
+      state.update(
+        entry.key,
+        children.slice(0, index + 1) as EntryValue<A['type']>,
+      )
+
+      return [state.getEntry(entry.key), newEntry]
     },
-    merge() {
-      return null
+    merge(state, { key, value }, { value: secondValue }) {
+      const movedChildren = [...(secondValue as Key[])]
+      const lastChildKey = (value as Key[])[value.length - 1]
+
+      if (
+        lastChildKey != null &&
+        movedChildren.length > 0 &&
+        mergeChildren(
+          state,
+          state.getEntry(lastChildKey),
+          state.getEntry(movedChildren[0]),
+        )
+      ) {
+        movedChildren.shift()
+      }
+
+      for (const childKey of movedChildren) state.move(childKey, key)
+
+      state.update(
+        key,
+        (children) => [...children, ...movedChildren] as EntryValue<A['type']>,
+      )
+
+      return true
     },
-    select() {
-      throw new Error('not implemented yet')
+    select(state, { key, value }, [index, ...next]) {
+      const childKey = index != null ? (value as Key[])[index] : undefined
+
+      if (childKey == null) {
+        state.setCaret({ key })
+      } else {
+        const child = state.getEntry(childKey)
+
+        getHandler(child).select(
+          state,
+          child,
+          next as IndexPath<typeof child.type>,
+        )
+      }
     },
+
     getIndexWithin({ value }, childKey) {
       // TODO: Remove the 'as' cast when possible
       return (value as Key[]).indexOf(childKey) as Index<A['type']>
@@ -98,13 +202,14 @@ export function createArrayHandler<A extends ArrayNodes>({
               )?.[1]
             : null
 
-        if (left && right && left.type === right.type)
-          getHandler(left).merge(state, left, right)
+        const isMerged =
+          left != null && right != null && mergeChildren(state, left, right)
 
         state.update(key, (children) => {
           const newChildren = [
             ...children.slice(0, start),
             ...(left != null ? [left.key] : []),
+            ...(right != null && !isMerged ? [right.key] : []),
             ...children.slice(end + 1),
           ]
 
@@ -124,12 +229,21 @@ export function createArrayHandler<A extends ArrayNodes>({
             return newChildren as EntryValue<A['type']>
           }
 
-          const newChild = ParagraphHandler.createEmpty(state, key)
-          ParagraphHandler.selectStart(state, newChild)
+          const newChild = childHandler.createEmpty(state, key)
+          getHandler(newChild).selectStart(state, newChild)
 
           return [newChild.key] as EntryValue<A['type']>
         })
 
+        for (let i = state.getEntry(key).value.length; i < minChildren; i++) {
+          const newChild = childHandler.createEmpty(state, key)
+
+          state.update(
+            key,
+            (children) => [...children, newChild.key] as EntryValue<A['type']>,
+          )
+        }
+
         return { success: true }
       },
       insertNewElement(state, { key, value }, [index, ...next], [endIndex]) {
@@ -163,15 +277,24 @@ export function createArrayHandler<A extends ArrayNodes>({
 
         return { success: true }
       },
-      deleteForward(state, { key, value }, [index], [endIndex]) {
+      deleteForward(state, entry, [index, ...next], [endIndex]) {
+        const { key, value } = entry
+
         if (index == null || index !== endIndex) return null
-        if (value.length <= 1 || index >= value.length) return null
+        if (value.length <= minChildren) return { success: true }
+        if (isChildSelection(next)) return removeChild(state, entry, index)
+        if (value.length <= 1) return null
+        // The last child has no following child to merge with
+        if (index >= value.length - 1) return { success: true }
 
         const currentChild = state.getEntry(value[index])
         const nextChild = state.getEntry(value[index + 1])
 
-        if (currentChild.type === nextChild.type) {
-          getHandler(currentChild).merge(state, currentChild, nextChild)
+        if (
+          !mergeChildren(state, currentChild, nextChild) &&
+          !isEmptyText(state, nextChild)
+        ) {
+          return { success: true }
         }
 
         state.update(
@@ -182,8 +305,21 @@ export function createArrayHandler<A extends ArrayNodes>({
 
         return { success: true }
       },
-      deleteBackward(state, { key, value }, [index], [endIndex]) {
+      deleteBackward(state, entry, [index, ...next], [endIndex]) {
+        const { key, value } = entry
+
         if (index == null || index !== endIndex) return null
+        if (value.length <= minChildren) {
+          // Instead of removing a child the caret moves to the previous one
+          if (index > 0 && !isChildSelection(next)) {
+            const previousChild = state.getEntry(value[index - 1])
+
+            getHandler(previousChild).selectEnd(state, previousChild)
+          }
+
+          return { success: true }
+        }
+        if (isChildSelection(next)) return removeChild(state, entry, index)
         if (value.length <= 1 || index <= 0) return null
 
         const currentChild = state.getEntry(value[index])
@@ -191,8 +327,12 @@ export function createArrayHandler<A extends ArrayNodes>({
 
         getHandler(previousChild).selectEnd(state, previousChild)
 
-        if (previousChild.type === currentChild.type)
-          getHandler(previousChild).merge(state, previousChild, currentChild)
+        if (
+          !mergeChildren(state, previousChild, currentChild) &&
+          !isEmptyText(state, currentChild)
+        ) {
+          return { success: true }
+        }
 
         state.update(
           key,
@@ -202,14 +342,102 @@ export function createArrayHandler<A extends ArrayNodes>({
 
         return { success: true }
       },
+      ...(isMovable
+        ? {
+            moveUp(state, { key }, [startIndex], [endIndex]) {
+              if (startIndex == null || endIndex == null) return null
+
+              return moveChildren(state, key, startIndex, endIndex, -1)
+                ? { success: true }
+                : null
+            },
+            moveDown(state, { key }, [startIndex], [endIndex]) {
+              if (startIndex == null || endIndex == null) return null
+
+              return moveChildren(state, key, startIndex, endIndex, 1)
+                ? { success: true }
+                : null
+            },
+          }
+        : {}),
     },
   }
 }
 
+/**
+ * Moves the children from `start` to `end` one position up (`-1`) or down
+ * (`1`). Returns `false` when the children are already at the boundary.
+ */
+export function moveChildren(
+  state: WritableState,
+  key: Key<ArrayNodes['type']>,
+  start: number,
+  end: number,
+  direction: -1 | 1,
+): boolean {
+  const children = state.getEntry(key).value as Key[]
+
+  if (start + direction < 0 || end + direction >= children.length) return false
+
+  const moved = children.slice(start, end + 1)
+  const rest = children.filter((_, i) => i < start || i > end)
+
+  state.update(key, [
+    ...rest.slice(0, start + direction),
+    ...moved,
+    ...rest.slice(start + direction),
+  ] as EntryValue<ArrayNodes['type']>)
+
+  return true
+}
+
+/**
+ * Merges the second child into the first one and returns whether this was
+ * possible. Children of different types are only merged when both are single
+ * lines of text (like a heading and a paragraph).
+ */
+function mergeChildren(
+  state: WritableState,
+  first: Entry,
+  second: Entry,
+): boolean {
+  if (first.type === second.type) {
+    return getHandler(first).merge(state, first, second) != null
+  }
+
+  const firstText = getInlineText(state, first)
+  const secondText = getInlineText(state, second)
+
+  if (firstText == null || secondText == null) return false
+
+  TextHandler.merge(state, firstText, secondText)
+
+  return true
+}
+
+/**
+ * Returns whether the path below the index of a child ends at the child
+ * itself, which means that the child is selected as a whole.
+ */
+function isChildSelection(next: unknown[]): boolean {
+  return next.length === 1 && next[0] == null
+}
+
+/**
+ * Children which cannot be merged are only deleted when they are empty, so
+ * that no content is lost.
+ */
+function isEmptyText(state: WritableState, entry: Entry): boolean {
+  return getInlineText(state, entry)?.value === ''
+}
+
 type ArrayNodes =
   | { type: 'root'; childHandler: NodeHandler<'paragraph'> }
   | { type: 'content'; childHandler: NodeHandler<'paragraph'> }
+  | { type: 'listItems'; childHandler: NodeHandler<'listItem'> }
   | {
       type: 'multipleChoiceAnswers'
       childHandler: NodeHandler<'multipleChoiceAnswer'>
     }
+  | { type: 'orderingItems'; childHandler: NodeHandler<'orderingItem'> }
+  | { type: 'matchingPairs'; childHandler: NodeHandler<'matchingPair'> }
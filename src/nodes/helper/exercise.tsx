@@ -0,0 +1,86 @@
+import { isEqual, shuffle } from 'es-toolkit'
+import { icons } from 'feather-icons'
+import type { ReactNode } from 'react'
+import { Command } from '../../command'
+import type { Key, StateManager } from '../../state'
+
+/**
+ * Header of an exercise in the authoring view. Besides the title and the
+ * given controls it contains a button which deletes the whole exercise.
+ */
+export function renderExerciseHeader(
+  manager: StateManager<'root'>,
+  key: Key,
+  title: string,
+  controls?: ReactNode,
+) {
+  return (
+    <div className="flex flex-row items-center gap-2">
+      <p className="font-medium font-sans">{title}</p>
+      <span className="flex-1" />
+      {controls}
+      <button
+        type="button"
+        className="btn btn-ghost btn-sm"
+        contentEditable={false}
+        onMouseDown={(event) => event.preventDefault()}
+        onClick={() => {
+          manager.update((state) => state.setCaret({ key }))
+          manager.dispatchCommand(Command.DeleteForward)
+        }}
+      >
+        <img
+          src={`data:image/svg+xml;utf8,${encodeURIComponent(icons['trash-2'].toSvg())}`}
+          className="inline mr-2"
+          alt=""
+        />
+        Delete exercise
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Small icon button next to an item of an exercise (like moving an answer).
+ */
+export function renderItemButton({
+  icon,
+  label,
+  disabled,
+  onClick,
+}: {
+  icon: 'arrow-up' | 'arrow-down' | 'x'
+  label: string
+  disabled: boolean
+  onClick: () => void
+}) {
+  return (
+    <button
+      type="button"
+      className="btn btn-ghost btn-xs"
+      title={label}
+      aria-label={label}
+      disabled={disabled}
+      // Keep the cursor in the item while the item is changed
+      onMouseDown={(event) => event.preventDefault()}
+      onClick={onClick}
+    >
+      <img
+        src={`data:image/svg+xml;utf8,${encodeURIComponent(icons[icon].toSvg())}`}
+        alt=""
+      />
+    </button>
+  )
+}
+
+/**
+ * Shuffles the items of an exercise for learners. The result always differs
+ * from the given (correct) order, unless there is only one item.
+ */
+export function shuffleItems<T>(items: T[]): T[] {
+  const shuffled = shuffle(items)
+
+  return items.length > 1 && isEqual(shuffled, items)
+    ? [...shuffled.slice(1), shuffled[0]]
+    : shuffled
+}
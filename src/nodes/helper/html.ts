@@ -0,0 +1,44 @@
+import type { Key, ReadonlyState } from '../../state'
+import { getHandler } from '../handler'
+
+export function renderChildHtml(state: ReadonlyState, key: Key): string {
+  const child = state.getEntry(key)
+
+  return getHandler(child).renderHtml(state, child)
+}
+
+/**
+ * Renders an exercise of the HTML export. The solution is only stored in an
+ * encoded form and checked by the script of the exported document, so that
+ * it cannot be read from the markup. This keeps honest learners from seeing
+ * the solution by accident, but of course it does not stop anyone who wants
+ * to cheat.
+ */
+export function renderExerciseHtml({
+  type,
+  title,
+  solution,
+  content,
+  checkLabel = 'Check',
+}: {
+  type: 'multipleChoice' | 'cloze' | 'textInput' | 'ordering' | 'matching'
+  title: string
+  solution: unknown
+  content: string
+  checkLabel?: string
+}): string {
+  return `<section class="exercise" data-exercise="${type}" data-solution="${encodeSolution(solution)}"><p class="exercise-title">${title}</p>${content}<div class="exercise-actions"><button type="button" data-check>${checkLabel}</button><output></output></div></section>`
+}
+
+/**
+ * Encodes the solution as Base64 of its JSON (see `decodeSolution()` in the
+ * script of the export).
+ */
+function encodeSolution(solution: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(solution))
+  let binary = ''
+
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+
+  return btoa(binary)
+}
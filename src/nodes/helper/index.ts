@@ -1,3 +1,17 @@
-export { createArrayHandler } from './array-nodes'
+export { createArrayHandler, moveChildren } from './array-nodes'
+export {
+  renderExerciseHeader,
+  renderItemButton,
+  shuffleItems,
+} from './exercise'
+export { renderChildHtml, renderExerciseHtml } from './html'
+export { getInlineText, isEmptyContent } from './inline-text'
+export {
+  changeListType,
+  indentListItem,
+  isEmptyListItem,
+  liftListItem,
+  wrapInList,
+} from './list-operations'
 export { createPrimitiveHandler } from './primitive-nodes'
 export { createWrappedHandler } from './wrapped-nodes'
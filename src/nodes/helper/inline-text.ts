@@ -0,0 +1,31 @@
+import type { Entry, Key, ReadonlyState } from '../../state'
+
+/**
+ * Returns the text of blocks which consist of a single line of text (like
+ * paragraphs and headings). Such blocks can be merged with each other even
+ * when they have different types.
+ */
+export function getInlineText(
+  state: ReadonlyState,
+  entry: Entry,
+): Entry<'text'> | null {
+  if (entry.type === 'paragraph') return state.getEntry(entry.value)
+  if (entry.type === 'heading') return state.getEntry(entry.value.value)
+
+  return null
+}
+
+/**
+ * Returns whether the content only consists of an empty paragraph (or another
+ * empty block of text).
+ */
+export function isEmptyContent(
+  state: ReadonlyState,
+  contentKey: Key<'content'>,
+): boolean {
+  const content = state.getEntry(contentKey)
+
+  if (content.value.length !== 1) return false
+
+  return getInlineText(state, state.getEntry(content.value[0]))?.value === ''
+}
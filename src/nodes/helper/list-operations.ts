@@ -0,0 +1,242 @@
+import {
+  type Entry,
+  isKeyType,
+  type Key,
+  type ParentKey,
+  type WritableState,
+} from '../../state'
+import type { ListType } from '../types/node-description'
+import { isEmptyContent } from './inline-text'
+
+type ListContainer = Entry<'root' | 'content'>
+type ListChild = Key<'paragraph' | ListType>
+
+/**
+ * Wraps the given paragraphs in a new list with one item per paragraph. The
+ * caller needs to replace the paragraphs by the list in the parent.
+ */
+export function wrapInList(
+  state: WritableState,
+  parent: Key<'root' | 'content'>,
+  paragraphs: Key<'paragraph'>[],
+  type: ListType,
+): Entry<ListType> {
+  return insertList(state, parent, type, (itemsKey) =>
+    paragraphs.map((paragraph) => insertListItem(state, itemsKey, [paragraph])),
+  )
+}
+
+/**
+ * Replaces a list by a list of another type with the same items.
+ */
+export function changeListType(
+  state: WritableState,
+  listKey: Key<ListType>,
+  type: ListType,
+) {
+  const list = state.getEntry(listKey)
+  const container = getContainer(state, list)
+  const newList = state.insert({
+    type,
+    parent: container.key,
+    createValue: (key) => {
+      state.move(list.value.items, key)
+      return { items: list.value.items }
+    },
+  })
+
+  replaceChildren(state, container, listKey, [newList.key])
+}
+
+/**
+ * Returns whether the item only consists of an empty paragraph.
+ */
+export function isEmptyListItem(
+  state: WritableState,
+  itemKey: Key<'listItem'>,
+) {
+  return isEmptyContent(state, state.getEntry(itemKey).value)
+}
+
+/**
+ * Moves a list item into the previous item (as an item of a nested list).
+ * Returns `false` when there is no previous item.
+ */
+export function indentListItem(
+  state: WritableState,
+  itemsKey: Key<'listItems'>,
+  index: number,
+): boolean {
+  if (index <= 0) return false
+
+  const items = state.getEntry(itemsKey)
+  const list = state.getEntry(items.parent as Key<ListType>)
+  const itemKey = items.value[index]
+  const previousItem = state.getEntry(items.value[index - 1])
+  const previousContent = state.getEntry(previousItem.value)
+  const lastChild = previousContent.value[previousContent.value.length - 1]
+
+  state.update(itemsKey, (children) => children.filter((k) => k !== itemKey))
+
+  if (lastChild != null && isKeyType(list.type, lastChild)) {
+    appendListItems(state, state.getEntry(lastChild).value.items, [itemKey])
+  } else {
+    const nestedList = insertList(state, previousContent.key, list.type, () => [
+      itemKey,
+    ])
+
+    state.update(previousContent.key, (children) => [
+      ...children,
+      nestedList.key,
+    ])
+  }
+
+  return true
+}
+
+/**
+ * Moves a list item one level up. Items of nested lists become items of the
+ * surrounding list, while the content of items of a top-level list is moved
+ * out of the list. Following items stay behind the lifted item.
+ */
+export function liftListItem(
+  state: WritableState,
+  itemsKey: Key<'listItems'>,
+  index: number,
+) {
+  const items = state.getEntry(itemsKey)
+  const list = state.getEntry(items.parent as Key<ListType>)
+  const container = getContainer(state, list)
+  const itemKey = items.value[index]
+  const previousItems = items.value.slice(0, index)
+  const followingItems = items.value.slice(index + 1)
+
+  if (container.parent != null && isKeyType('listItem', container.parent)) {
+    const parentItem = state.getEntry(container.parent)
+    const outerItemsKey = parentItem.parent as Key<'listItems'>
+
+    if (followingItems.length > 0) {
+      const itemContent = state.getEntry(state.getEntry(itemKey).value)
+      const nestedList = insertList(state, itemContent.key, list.type, () => {
+        return followingItems
+      })
+
+      state.update(itemContent.key, (children) => [...children, nestedList.key])
+    }
+
+    state.update(itemsKey, previousItems)
+    if (previousItems.length === 0)
+      replaceChildren(state, container, list.key, [])
+
+    state.move(itemKey, outerItemsKey)
+    state.update(outerItemsKey, (children) => {
+      const parentIndex = children.indexOf(parentItem.key)
+
+      return [
+        ...children.slice(0, parentIndex + 1),
+        itemKey,
+        ...children.slice(parentIndex + 1),
+      ]
+    })
+  } else {
+    const content = state.getEntry(state.getEntry(itemKey).value)
+
+    for (const childKey of content.value) state.move(childKey, container.key)
+
+    const followingList =
+      followingItems.length > 0
+        ? insertList(state, container.key, list.type, () => followingItems)
+        : null
+
+    state.update(itemsKey, previousItems)
+    replaceChildren(state, container, list.key, [
+      ...(previousItems.length > 0 ? [list.key] : []),
+      ...content.value,
+      ...(followingList != null ? [followingList.key] : []),
+    ])
+  }
+}
+
+function insertList(
+  state: WritableState,
+  parent: ParentKey,
+  type: ListType,
+  getItems: (itemsKey: Key<'listItems'>) => Key<'listItem'>[],
+): Entry<ListType> {
+  return state.insert({
+    type,
+    parent,
+    createValue: (key) => ({
+      items: state.insert({
+        type: 'listItems',
+        parent: key,
+        createValue: (itemsKey) => {
+          const items = getItems(itemsKey)
+
+          for (const item of items) state.move(item, itemsKey)
+
+          return items
+        },
+      }).key,
+    }),
+  })
+}
+
+function insertListItem(
+  state: WritableState,
+  parent: Key<'listItems'>,
+  children: ListChild[],
+): Key<'listItem'> {
+  return state.insert({
+    type: 'listItem',
+    parent,
+    createValue: (key) =>
+      state.insert({
+        type: 'content',
+        parent: key,
+        createValue: (contentKey) => {
+          for (const child of children) state.move(child, contentKey)
+
+          return children
+        },
+      }).key,
+  }).key
+}
+
+function appendListItems(
+  state: WritableState,
+  itemsKey: Key<'listItems'>,
+  newItems: Key<'listItem'>[],
+) {
+  for (const item of newItems) state.move(item, itemsKey)
+
+  state.update(itemsKey, (children) => [...children, ...newItems])
+}
+
+function getContainer(
+  state: WritableState,
+  list: Entry<ListType>,
+): ListContainer {
+  return state.getEntry(list.parent as Key<'root' | 'content'>)
+}
+
+/**
+ * Replaces a child of a list container by the given children.
+ */
+function replaceChildren(
+  state: WritableState,
+  container: ListContainer,
+  childKey: Key,
+  newChildren: ListChild[],
+) {
+  // TODO: Remove type assertion when possible
+  state.update(container.key as Key<'content'>, (children) => {
+    const index = (children as Key[]).indexOf(childKey)
+
+    return [
+      ...children.slice(0, index),
+      ...newChildren,
+      ...children.slice(index + 1),
+    ]
+  })
+}
@@ -1,7 +1,15 @@
+import { escape as escapeHtml } from 'es-toolkit'
 import type { EntryValue } from '../../state'
 import type { NodeHandler } from '../types/node-handler'
 
-export function createPrimitiveHandler<T extends 'text' | 'boolean'>({
+export function createPrimitiveHandler<
+  T extends
+    | 'boolean'
+    | 'headingLevel'
+    | 'multipleChoiceMode'
+    | 'string'
+    | 'codeLanguage',
+>({
   type,
   emptyValue,
 }: {
@@ -18,6 +26,9 @@ export function createPrimitiveHandler<T extends 'text' | 'boolean'>({
     read(state, key) {
       return state.getEntry(key).value
     },
+    renderHtml(_, { value }) {
+      return escapeHtml(String(value))
+    },
     selectStart(state, { key }) {
       state.setCaret({ key })
     },
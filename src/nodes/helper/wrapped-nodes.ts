@@ -30,19 +30,26 @@ export function createWrappedHandler<W extends WrappedNodes>({
         W['type']
       >
     },
+    renderHtml(state, { value }) {
+      return childHandler.renderHtml(state, state.getEntry(value))
+    },
     selectStart(state, { value }) {
       childHandler.selectStart(state, state.getEntry(value))
     },
     selectEnd(state, { value }) {
       childHandler.selectEnd(state, state.getEntry(value))
     },
-    select(state, { key, value }, [_, ...next]) {
-      if (next == null) {
+    select(state, { key, value }, at) {
+      if (at.length === 0) {
         state.setCaret({ key })
       } else {
         const child = state.getEntry<W['childType']>(value)
 
-        childHandler.select(state, child, next as IndexPath<typeof child.type>)
+        childHandler.select(
+          state,
+          child,
+          at.slice(1) as IndexPath<typeof child.type>,
+        )
       }
     },
     getIndexWithin() {
@@ -88,4 +95,8 @@ export function createWrappedHandler<W extends WrappedNodes>({
   }
 }
 
-type WrappedNodes = { type: 'paragraph'; childType: 'text' }
+type WrappedNodes =
+  | { type: 'paragraph'; childType: 'text' }
+  | { type: 'listItem'; childType: 'content' }
+  | { type: 'orderingItem'; childType: 'text' }
+  | { type: 'formula'; childType: 'text' }
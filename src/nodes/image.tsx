@@ -0,0 +1,381 @@
+import { escape as escapeHtml } from 'es-toolkit'
+import { icons } from 'feather-icons'
+import { isSafeUrl } from '../rich-text'
+import type { IndexPath } from '../selection'
+import type { Entry, Key, ReadonlyState, StateManager } from '../state'
+import { ContentHandler } from './content'
+import { createPrimitiveHandler, isEmptyContent } from './helper'
+import type { NodeHandler } from './types/node-handler'
+
+export const StringHandler: NodeHandler<'string'> = createPrimitiveHandler({
+  type: 'string',
+  emptyValue: '',
+})
+
+export const ImageHandler: NodeHandler<'image'> = {
+  insert(state, parent, { src, alt, caption, license, author, sourceUrl }) {
+    return state.insert({
+      type: 'image',
+      parent,
+      createValue: (key) => ({
+        src: StringHandler.insert(state, key, src).key,
+        alt: StringHandler.insert(state, key, alt).key,
+        caption:
+          caption != null
+            ? ContentHandler.insert(state, key, caption).key
+            : ContentHandler.createEmpty(state, key).key,
+        license: StringHandler.insert(state, key, license ?? '').key,
+        author: StringHandler.insert(state, key, author ?? '').key,
+        sourceUrl: StringHandler.insert(state, key, sourceUrl ?? '').key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'image',
+      parent,
+      createValue: (key) => ({
+        src: StringHandler.createEmpty(state, key).key,
+        alt: StringHandler.createEmpty(state, key).key,
+        caption: ContentHandler.createEmpty(state, key).key,
+        license: StringHandler.createEmpty(state, key).key,
+        author: StringHandler.createEmpty(state, key).key,
+        sourceUrl: StringHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { src, alt, caption, license, author, sourceUrl } =
+      state.getEntry(key).value
+    return {
+      type: 'image',
+      src: StringHandler.read(state, src),
+      alt: StringHandler.read(state, alt),
+      ...(isEmptyContent(state, caption)
+        ? {}
+        : { caption: ContentHandler.read(state, caption) }),
+      ...readOptionalString(state, 'license', license),
+      ...readOptionalString(state, 'author', author),
+      ...readOptionalString(state, 'sourceUrl', sourceUrl),
+    }
+  },
+  render(manager, entry) {
+    const { key, value } = entry
+
+    if (manager.mode === 'preview') return renderFigure(manager, entry)
+
+    const src = manager.state.getEntry(value.src).value
+    const alt = manager.state.getEntry(value.alt).value
+
+    return (
+      <figure
+        id={key}
+        key={key}
+        data-key={key}
+        className="card bg-base-300 text-base-content p-4 mb-4"
+      >
+        <section
+          className="flex flex-col items-center gap-2 rounded border-2 border-dashed border-info p-4 font-sans"
+          contentEditable={false}
+          aria-label="Image"
+          onDragOver={(event) => event.preventDefault()}
+          onDrop={(event) => {
+            const file = event.dataTransfer.files.item(0)
+
+            if (file == null) return
+
+            event.preventDefault()
+            loadImageFile(manager, value.src, file)
+          }}
+        >
+          {src !== '' ? (
+            <img src={src} alt={alt} className="max-h-96 m-0" />
+          ) : (
+            <p className="m-0 opacity-60">Drop an image here</p>
+          )}
+          <label className="btn btn-sm">
+            <img
+              src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.upload.toSvg())}`}
+              className="inline m-0"
+              alt=""
+            />
+            {src !== '' ? 'Replace image' : 'Choose image'}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+
+                if (file != null) loadImageFile(manager, value.src, file)
+              }}
+            />
+          </label>
+        </section>
+        <div
+          className="grid grid-cols-2 gap-2 mt-2 font-sans text-sm"
+          contentEditable={false}
+        >
+          {renderField(manager, {
+            key: value.alt,
+            label: 'Alt text (required)',
+            placeholder: 'Describe the image for people who cannot see it',
+            isMissing: alt.trim() === '',
+          })}
+          {renderField(manager, {
+            key: value.license,
+            label: 'License',
+            placeholder: 'For example CC BY 4.0',
+            isMissing:
+              manager.state.getEntry(value.license).value.trim() === '',
+            suggestions: licenses,
+          })}
+          {renderField(manager, {
+            key: value.author,
+            label: 'Author',
+            placeholder: 'Name of the author',
+          })}
+          {renderField(manager, {
+            key: value.sourceUrl,
+            label: 'Source URL',
+            placeholder: 'https://',
+          })}
+        </div>
+        <figcaption className="mt-2">
+          <span
+            className="text-xs font-sans opacity-60 select-none"
+            contentEditable={false}
+          >
+            Caption
+          </span>
+          {ContentHandler.render(
+            manager,
+            manager.state.getEntry(value.caption),
+          )}
+        </figcaption>
+      </figure>
+    )
+  },
+  renderHtml(state, { value }) {
+    const [src, alt, license, author, sourceUrl] = [
+      value.src,
+      value.alt,
+      value.license,
+      value.author,
+      value.sourceUrl,
+    ].map((partKey) => escapeHtml(state.getEntry(partKey).value))
+    const caption = isEmptyContent(state, value.caption)
+      ? ''
+      : ContentHandler.renderHtml(state, state.getEntry(value.caption))
+    const credit = [author, license].filter((part) => part !== '').join(', ')
+    // Sources with other schemes (like `javascript:`) are left out
+    const source =
+      sourceUrl !== '' && isSafeUrl(sourceUrl)
+        ? `${credit !== '' ? ' – ' : ''}<a href="${sourceUrl}" target="_blank" rel="noreferrer">Source</a>`
+        : ''
+    const attribution =
+      credit !== '' || source !== '' ? `<small>${credit}${source}</small>` : ''
+
+    const image = src !== '' ? `<img src="${src}" alt="${alt}">` : ''
+    const figcaption =
+      caption !== '' || attribution !== ''
+        ? `<figcaption>${caption}${attribution}</figcaption>`
+        : ''
+
+    return `<figure>${image}${figcaption}</figure>`
+  },
+  selectStart(state, { value }) {
+    ContentHandler.selectStart(state, state.getEntry(value.caption))
+  },
+  selectEnd(state, { value }) {
+    ContentHandler.selectEnd(state, state.getEntry(value.caption))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if (part === 'caption' && next != null) {
+      const child = state.getEntry(value.caption)
+
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
+    } else if (part != null && part !== 'caption' && next != null) {
+      const child = state.getEntry(value[part])
+
+      StringHandler.select(state, child, next as IndexPath<'string'>)
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    const part = imageParts.find((part) => value[part] === childKey)
+
+    if (part == null) throw new Error('Child not found')
+
+    return part
+  },
+  onCommand: {
+    // Deleting at the boundaries of the caption must not merge the image with
+    // the surrounding content
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+function readOptionalString<P extends 'license' | 'author' | 'sourceUrl'>(
+  state: ReadonlyState,
+  part: P,
+  key: Key<'string'>,
+): { [K in P]?: string } {
+  const value = StringHandler.read(state, key)
+
+  return value !== '' ? ({ [part]: value } as { [K in P]: string }) : {}
+}
+
+const imageParts = [
+  'src',
+  'alt',
+  'caption',
+  'license',
+  'author',
+  'sourceUrl',
+] as const
+
+const licenses = [
+  'CC0 1.0',
+  'CC BY 4.0',
+  'CC BY-SA 4.0',
+  'CC BY-NC 4.0',
+  'CC BY-NC-SA 4.0',
+  'CC BY-ND 4.0',
+  'Public Domain',
+]
+
+/**
+ * Images are stored as data URLs in the shared document, so that peers
+ * receive them together with the content. Larger files would slow down the
+ * synchronization noticeably.
+ */
+const maxImageSize = 2 * 1024 * 1024
+
+function loadImageFile(
+  manager: StateManager<'root'>,
+  srcKey: Key<'string'>,
+  file: File,
+) {
+  if (!file.type.startsWith('image/')) {
+    window.alert('Only image files can be added.')
+    return
+  }
+  if (file.size > maxImageSize) {
+    window.alert('The image is too large. Images can have at most 2 MB.')
+    return
+  }
+
+  const reader = new FileReader()
+
+  reader.addEventListener('load', () => {
+    const { result } = reader
+
+    if (typeof result === 'string') {
+      manager.update((state) => state.update(srcKey, result))
+    }
+  })
+  reader.readAsDataURL(file)
+}
+
+function renderField(
+  manager: StateManager<'root'>,
+  {
+    key,
+    label,
+    placeholder,
+    isMissing = false,
+    suggestions,
+  }: {
+    key: Key<'string'>
+    label: string
+    placeholder: string
+    isMissing?: boolean
+    suggestions?: string[]
+  },
+) {
+  const listId = suggestions != null ? `${key}-suggestions` : undefined
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className={`text-xs ${isMissing ? 'text-error' : 'opacity-60'}`}>
+        {label}
+        {isMissing ? ' – missing' : null}
+      </span>
+      <input
+        type="text"
+        className={`input input-sm input-bordered w-full ${
+          isMissing ? 'input-error' : ''
+        }`}
+        placeholder={placeholder}
+        list={listId}
+        value={manager.state.getEntry(key).value}
+        onChange={(event) => {
+          manager.update((state) => state.update(key, event.target.value))
+        }}
+      />
+      {suggestions != null ? (
+        <datalist id={listId}>
+          {suggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      ) : null}
+    </label>
+  )
+}
+
+/**
+ * Image as learners see it: With its caption and the attribution which
+ * licenses like CC BY require.
+ */
+function renderFigure(
+  manager: StateManager<'root'>,
+  { key, value }: Entry<'image'>,
+) {
+  const [src, alt, license, author, sourceUrl] = [
+    value.src,
+    value.alt,
+    value.license,
+    value.author,
+    value.sourceUrl,
+  ].map((partKey) => manager.state.getEntry(partKey).value)
+
+  return (
+    <figure id={key} key={key} data-key={key}>
+      {src !== '' ? <img src={src} alt={alt} /> : null}
+      <figcaption>
+        {ContentHandler.render(manager, manager.state.getEntry(value.caption))}
+        {author !== '' || license !== '' || sourceUrl !== '' ? (
+          <small className="block">
+            {[author, license].filter((part) => part !== '').join(', ')}
+            {sourceUrl !== '' ? (
+              <>
+                {author !== '' || license !== '' ? ' – ' : null}
+                <a
+                  href={isSafeUrl(sourceUrl) ? sourceUrl : undefined}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Source
+                </a>
+              </>
+            ) : null}
+          </small>
+        ) : null}
+      </figcaption>
+    </figure>
+  )
+}
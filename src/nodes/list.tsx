@@ -0,0 +1,221 @@
+import type { IndexPath } from '../selection'
+import { ContentHandler } from './content'
+import {
+  createArrayHandler,
+  createWrappedHandler,
+  indentListItem,
+  isEmptyListItem,
+  liftListItem,
+} from './helper'
+import type { Index, JSONValue, ListType } from './types/node-description'
+import type { NodeHandler, NodeHandlerOf } from './types/node-handler'
+
+export const ListItemHandler: NodeHandler<'listItem'> = {
+  ...createWrappedHandler<{ type: 'listItem'; childType: 'content' }>({
+    type: 'listItem',
+    childHandler: ContentHandler,
+  }),
+  render(manager, { key, value }) {
+    return (
+      <li id={key} key={key} data-key={key}>
+        {ContentHandler.render(manager, manager.state.getEntry(value))}
+      </li>
+    )
+  },
+  renderHtml(state, { value }) {
+    return `<li>${ContentHandler.renderHtml(state, state.getEntry(value))}</li>`
+  },
+}
+
+const ListItemsArrayHandler = createArrayHandler({
+  type: 'listItems',
+  childHandler: ListItemHandler,
+})
+
+export const ListItemsHandler: NodeHandler<'listItems'> = {
+  ...ListItemsArrayHandler,
+  render(manager, { value }) {
+    return value.map((itemKey) =>
+      ListItemHandler.render(manager, manager.state.getEntry(itemKey)),
+    )
+  },
+  onCommand: {
+    ...ListItemsArrayHandler.onCommand,
+    insertNewElement(state, node, start, end) {
+      const [index] = start
+
+      // Enter in an empty item leaves the list (or the nested list)
+      if (
+        index != null &&
+        index === end[0] &&
+        isEmptyListItem(state, node.value[index])
+      ) {
+        liftListItem(state, node.key, index)
+        return { success: true }
+      }
+
+      return (
+        ListItemsArrayHandler.onCommand.insertNewElement?.(
+          state,
+          node,
+          start,
+          end,
+        ) ?? null
+      )
+    },
+    deleteBackward(state, node, start, end) {
+      // Backspace at the start of the first item leaves the list, otherwise
+      // the item is merged into the previous one
+      if (start[0] === 0 && end[0] === 0) {
+        liftListItem(state, node.key, 0)
+        return { success: true }
+      }
+
+      return (
+        ListItemsArrayHandler.onCommand.deleteBackward?.(
+          state,
+          node,
+          start,
+          end,
+        ) ?? null
+      )
+    },
+    indent(state, { key }, [startIndex], [endIndex]) {
+      if (startIndex == null) return null
+
+      // Each indented item moves into the nested list of the previous item,
+      // so the next item to indent always has the same index
+      for (let i = startIndex; i <= (endIndex ?? startIndex); i++) {
+        if (!indentListItem(state, key, startIndex)) break
+      }
+
+      return { success: true }
+    },
+    outdent(state, { key }, [startIndex], [endIndex]) {
+      if (startIndex == null) return null
+
+      for (let i = endIndex ?? startIndex; i >= startIndex; i--) {
+        liftListItem(state, key, i)
+      }
+
+      return { success: true }
+    },
+  },
+}
+
+export const BulletListHandler: NodeHandler<'bulletList'> = createListHandler({
+  type: 'bulletList',
+  tag: 'ul',
+})
+
+export const OrderedListHandler: NodeHandler<'orderedList'> = createListHandler(
+  { type: 'orderedList', tag: 'ol' },
+)
+
+function createListHandler<T extends ListType>({
+  type,
+  tag: Tag,
+}: {
+  type: T
+  tag: 'ul' | 'ol'
+}): NodeHandlerOf<T> {
+  return {
+    insert(state, parent, { items }) {
+      return state.insert({
+        type,
+        parent,
+        createValue: (key) => ({
+          items: ListItemsHandler.insert(state, key, items).key,
+        }),
+      })
+    },
+    createEmpty(state, parent) {
+      return state.insert({
+        type,
+        parent,
+        createValue: (key) => ({
+          items: ListItemsHandler.createEmpty(state, key).key,
+        }),
+      })
+    },
+    read(state, key) {
+      const { items } = state.getEntry(key).value
+
+      return {
+        type,
+        items: ListItemsHandler.read(state, items),
+      } as JSONValue<T>
+    },
+    render(manager, { key, value }) {
+      return (
+        <Tag id={key} key={key} data-key={key}>
+          {ListItemsHandler.render(
+            manager,
+            manager.state.getEntry(value.items),
+          )}
+        </Tag>
+      )
+    },
+    renderHtml(state, { value }) {
+      const items = ListItemsHandler.renderHtml(
+        state,
+        state.getEntry(value.items),
+      )
+
+      return `<${Tag}>${items}</${Tag}>`
+    },
+    selectStart(state, { value }) {
+      ListItemsHandler.selectStart(state, state.getEntry(value.items))
+    },
+    selectEnd(state, { value }) {
+      ListItemsHandler.selectEnd(state, state.getEntry(value.items))
+    },
+    select(state, { key, value }, [part, ...next]) {
+      if (part === 'items' && next != null) {
+        const items = state.getEntry(value.items)
+
+        ListItemsHandler.select(state, items, next as IndexPath<'listItems'>)
+      } else {
+        state.setCaret({ key })
+      }
+    },
+    getIndexWithin({ value }, childKey) {
+      if (childKey === value.items) return 'items' as Index<T>
+      throw new Error('Child not found')
+    },
+    split(state, entry, [part, ...next], newParentKey) {
+      if (part !== 'items' || next == null) return null
+
+      const items = state.getEntry(entry.value.items)
+
+      const newEntry = state.insert({
+        type,
+        parent: newParentKey ?? entry.parent,
+        createValue: (key) => {
+          const split = ListItemsHandler.split(
+            state,
+            items,
+            next as IndexPath<'listItems'>,
+            key,
+          )
+
+          if (split == null) return null
+
+          return { items: split[1].key }
+        },
+      })
+
+      if (newEntry == null) return null
+
+      return [entry, newEntry]
+    },
+    merge(state, { value }, { value: secondValue }) {
+      return ListItemsHandler.merge(
+        state,
+        state.getEntry(value.items),
+        state.getEntry(secondValue.items),
+      )
+    },
+    onCommand: {},
+  }
+}
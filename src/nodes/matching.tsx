@@ -0,0 +1,446 @@
+import { icons } from 'feather-icons'
+import { useState } from 'react'
+import { Command } from '../command'
+import type { IndexPath } from '../selection'
+import type { Entry, Key, StateManager } from '../state'
+import { ContentHandler } from './content'
+import {
+  createArrayHandler,
+  moveChildren,
+  renderExerciseHeader,
+  renderExerciseHtml,
+  renderItemButton,
+  shuffleItems,
+} from './helper'
+import type { NodeHandler } from './types/node-handler'
+
+export const MatchingPairHandler: NodeHandler<'matchingPair'> = {
+  insert(state, parent, { term, match }) {
+    return state.insert({
+      type: 'matchingPair',
+      parent,
+      createValue: (key) => ({
+        term: ContentHandler.insert(state, key, term).key,
+        match: ContentHandler.insert(state, key, match).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'matchingPair',
+      parent,
+      createValue: (key) => ({
+        term: ContentHandler.createEmpty(state, key).key,
+        match: ContentHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { term, match } = state.getEntry(key).value
+    return {
+      type: 'matchingPair',
+      term: ContentHandler.read(state, term),
+      match: ContentHandler.read(state, match),
+    }
+  },
+  render(manager, { key, parent, value }) {
+    const pairsKey = parent as Key<'matchingPairs'>
+    const pairs = manager.state.getEntry(pairsKey).value
+    const index = pairs.indexOf(key)
+
+    return (
+      <div
+        id={key}
+        key={key}
+        data-key={key}
+        className="grid grid-cols-[1fr_1fr_auto] gap-2 items-start mb-1"
+      >
+        <div className="border-l-2 border-info pl-2">
+          {ContentHandler.render(manager, manager.state.getEntry(value.term))}
+        </div>
+        <div className="border-l-2 border-info pl-2">
+          {ContentHandler.render(manager, manager.state.getEntry(value.match))}
+        </div>
+        <span className="flex flex-row gap-1" contentEditable={false}>
+          {renderItemButton({
+            icon: 'arrow-up',
+            label: 'Move pair up',
+            disabled: index <= 0,
+            onClick: () => {
+              manager.update((state) => {
+                moveChildren(state, pairsKey, index, index, -1)
+              })
+            },
+          })}
+          {renderItemButton({
+            icon: 'arrow-down',
+            label: 'Move pair down',
+            disabled: index >= pairs.length - 1,
+            onClick: () => {
+              manager.update((state) => {
+                moveChildren(state, pairsKey, index, index, 1)
+              })
+            },
+          })}
+          {renderItemButton({
+            icon: 'x',
+            label: 'Remove pair',
+            disabled: pairs.length <= minPairs,
+            onClick: () => {
+              manager.update((state) => state.setCaret({ key }))
+              manager.dispatchCommand(Command.DeleteForward)
+            },
+          })}
+        </span>
+      </div>
+    )
+  },
+  renderHtml(state, { value }) {
+    const term = ContentHandler.renderHtml(state, state.getEntry(value.term))
+    const match = ContentHandler.renderHtml(state, state.getEntry(value.match))
+
+    return `<div class="pair"><div>${term}</div><div>${match}</div></div>`
+  },
+  selectStart(state, { value }) {
+    ContentHandler.selectStart(state, state.getEntry(value.term))
+  },
+  selectEnd(state, { value }) {
+    ContentHandler.selectEnd(state, state.getEntry(value.match))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if ((part === 'term' || part === 'match') && next != null) {
+      const child = state.getEntry(value[part])
+
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.term) return 'term'
+    if (childKey === value.match) return 'match'
+    throw new Error('Child not found')
+  },
+  onCommand: {
+    // Pairs are only removed as a whole, so that a term never loses its match
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+const minPairs = 2
+
+export const MatchingPairsHandler: NodeHandler<'matchingPairs'> =
+  createArrayHandler({
+    type: 'matchingPairs',
+    childHandler: MatchingPairHandler,
+    minChildren: minPairs,
+    isMovable: true,
+  })
+
+export const MatchingHandler: NodeHandler<'matching'> = {
+  insert(state, parent, { task, pairs }) {
+    return state.insert({
+      type: 'matching',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.insert(state, key, task).key,
+        pairs: MatchingPairsHandler.insert(state, key, pairs).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'matching',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.createEmpty(state, key).key,
+        pairs: MatchingPairsHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { task, pairs } = state.getEntry(key).value
+    return {
+      type: 'matching',
+      task: ContentHandler.read(state, task),
+      pairs: MatchingPairsHandler.read(state, pairs),
+    }
+  },
+  render(manager, entry) {
+    const { key, value } = entry
+
+    if (manager.mode === 'preview') {
+      return <MatchingExercise key={key} manager={manager} entry={entry} />
+    }
+
+    return (
+      <div
+        id={key}
+        key={key}
+        data-key={key}
+        className="card bg-base-300 text-base-content p-4 mb-4"
+      >
+        {renderExerciseHeader(manager, key, 'MATCHING')}
+        <div className="font-bold">
+          {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+        </div>
+        <div
+          className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs font-sans opacity-60 select-none"
+          contentEditable={false}
+        >
+          <span>Term</span>
+          <span>Match</span>
+        </div>
+        {MatchingPairsHandler.render(
+          manager,
+          manager.state.getEntry(value.pairs),
+        )}
+        <div className="mt-2" contentEditable={false}>
+          <button
+            type="button"
+            className="btn btn-ghost btn-sm"
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => {
+              manager.update((state) => {
+                const pair = MatchingPairHandler.createEmpty(state, value.pairs)
+
+                state.update(value.pairs, (pairs) => [...pairs, pair.key])
+                MatchingPairHandler.selectStart(state, pair)
+              })
+            }}
+          >
+            <img
+              src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.plus.toSvg())}`}
+              className="inline mr-2"
+              alt=""
+            />
+            Add pair
+          </button>
+        </div>
+      </div>
+    )
+  },
+  renderHtml(state, { value }) {
+    const task = ContentHandler.renderHtml(state, state.getEntry(value.task))
+    const pairs = state.getEntry(value.pairs).value
+    const shuffled = shuffleItems(pairs)
+    const options = shuffled
+      .map((_, index) => `<option value="${index}">${getLabel(index)}</option>`)
+      .join('')
+    const termsHtml = pairs
+      .map((pairKey) => {
+        const { term } = state.getEntry(pairKey).value
+
+        return `<div class="term"><select aria-label="Match"><option value="" selected disabled>–</option>${options}</select>${ContentHandler.renderHtml(state, state.getEntry(term))}</div>`
+      })
+      .join('')
+    const matchesHtml = shuffled
+      .map((pairKey, index) => {
+        const { match } = state.getEntry(pairKey).value
+
+        return `<div class="match"><b>${getLabel(index)}</b>${ContentHandler.renderHtml(state, state.getEntry(match))}</div>`
+      })
+      .join('')
+
+    return renderExerciseHtml({
+      type: 'matching',
+      title: 'MATCHING',
+      // Index of the correct match for every term
+      solution: pairs.map((pairKey) => shuffled.indexOf(pairKey)),
+      content: `<div class="exercise-task">${task}</div><div class="pairs"><div>${termsHtml}</div><div>${matchesHtml}</div></div>`,
+    })
+  },
+  selectStart(state, { value }) {
+    ContentHandler.selectStart(state, state.getEntry(value.task))
+  },
+  selectEnd(state, { value }) {
+    MatchingPairsHandler.selectEnd(state, state.getEntry(value.pairs))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if (part === 'task' && next != null) {
+      const child = state.getEntry(value.task)
+
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
+    } else if (part === 'pairs' && next != null) {
+      const child = state.getEntry(value.pairs)
+
+      MatchingPairsHandler.select(
+        state,
+        child,
+        next as IndexPath<'matchingPairs'>,
+      )
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.task) return 'task'
+    if (childKey === value.pairs) return 'pairs'
+    throw new Error('Child not found')
+  },
+  onCommand: {
+    // Like for multiple choice exercises deleting at the boundaries must not
+    // merge the exercise with the surrounding content
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+/**
+ * Learner view of a matching exercise. The matches are listed in a shuffled
+ * order and labeled with letters, which learners pick for each term.
+ */
+function MatchingExercise({
+  manager,
+  entry,
+}: {
+  manager: StateManager<'root'>
+  entry: Entry<'matching'>
+}) {
+  const { key, value } = entry
+  const pairs = manager.state.getEntry(value.pairs).value
+  const [shuffled] = useState(() => shuffleItems(pairs))
+  const [picked, setPicked] = useState<Record<string, number>>({})
+  const [results, setResults] = useState<Record<string, boolean> | null>(null)
+
+  // Pairs which were added by others since the exercise was shuffled are
+  // appended
+  const matches = [
+    ...shuffled.filter((pairKey) => pairs.includes(pairKey)),
+    ...pairs.filter((pairKey) => !shuffled.includes(pairKey)),
+  ]
+
+  const pickMatch = (pairKey: Key<'matchingPair'>, matchIndex: number) => {
+    setPicked((picked) => ({ ...picked, [pairKey]: matchIndex }))
+    setResults(null)
+  }
+
+  const checkMatches = () => {
+    setResults(
+      Object.fromEntries(
+        pairs.map((pairKey) => [
+          pairKey,
+          matches[picked[pairKey] ?? -1] === pairKey,
+        ]),
+      ),
+    )
+  }
+
+  const resultValues = Object.values(results ?? {})
+  const correctCount = resultValues.filter(Boolean).length
+
+  return (
+    <div
+      id={key}
+      data-key={key}
+      className="card bg-base-300 text-base-content p-4 mb-4"
+    >
+      <p className="font-medium font-sans">MATCHING</p>
+      <div className="font-bold">
+        {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          {pairs.map((pairKey) => {
+            const pair = manager.state.getEntry(pairKey)
+            const result = results?.[pairKey]
+
+            return (
+              <div key={pairKey} className="flex flex-row items-start mb-2">
+                <select
+                  aria-label="Match"
+                  className={`select select-sm w-auto mr-2 ${
+                    result === true
+                      ? 'select-success'
+                      : result === false
+                        ? 'select-error'
+                        : ''
+                  }`}
+                  value={picked[pairKey] ?? ''}
+                  onChange={(event) =>
+                    pickMatch(pairKey, Number(event.target.value))
+                  }
+                >
+                  <option value="" disabled>
+                    –
+                  </option>
+                  {matches.map((matchKey, matchIndex) => (
+                    <option key={matchKey} value={matchIndex}>
+                      {getLabel(matchIndex)}
+                    </option>
+                  ))}
+                </select>
+                {ContentHandler.render(
+                  manager,
+                  manager.state.getEntry(pair.value.term),
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <div>
+          {matches.map((matchKey, matchIndex) => {
+            const pair = manager.state.getEntry(matchKey)
+
+            return (
+              <div key={matchKey} className="flex flex-row items-start mb-2">
+                <span className="font-bold mr-2">{getLabel(matchIndex)}</span>
+                {ContentHandler.render(
+                  manager,
+                  manager.state.getEntry(pair.value.match),
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+      <div className="flex flex-row items-center gap-4 mt-2">
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={checkMatches}
+        >
+          Check
+        </button>
+        {results != null ? (
+          <output
+            className={
+              correctCount === resultValues.length
+                ? 'text-success'
+                : 'text-error'
+            }
+          >
+            {correctCount === resultValues.length
+              ? 'All pairs are correct!'
+              : `${correctCount} of ${resultValues.length} pairs are correct.`}
+          </output>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+function getLabel(index: number) {
+  return String.fromCharCode('A'.charCodeAt(0) + index)
+}
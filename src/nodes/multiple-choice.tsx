@@ -1,19 +1,41 @@
+import { escape as escapeHtml } from 'es-toolkit'
+import { useState } from 'react'
 import type { IndexPath } from '../selection'
-import type { StateManager } from '../state'
+import type {
+  Entry,
+  EntryValue,
+  Key,
+  ReadonlyState,
+  StateManager,
+  WritableState,
+} from '../state'
 import { ContentHandler } from './content'
-import { createArrayHandler, createPrimitiveHandler } from './helper'
+import {
+  createArrayHandler,
+  createPrimitiveHandler,
+  isEmptyContent,
+  moveChildren,
+  renderExerciseHeader,
+  renderExerciseHtml,
+  renderItemButton,
+} from './helper'
 import { TextHandler } from './text'
+import type { MultipleChoiceMode } from './types/node-description'
 import type { NodeHandler } from './types/node-handler'
 
 export const MultipleChoiceAnswerHandler: NodeHandler<'multipleChoiceAnswer'> =
   {
-    insert(state, parent, { isCorrect, answer }) {
+    insert(state, parent, { isCorrect, answer, feedback }) {
       return state.insert({
         type: 'multipleChoiceAnswer',
         parent,
         createValue: (key) => ({
           isCorrect: BooleanHandler.insert(state, key, isCorrect).key,
           answer: TextHandler.insert(state, key, answer).key,
+          feedback:
+            feedback != null
+              ? ContentHandler.insert(state, key, feedback).key
+              : ContentHandler.createEmpty(state, key).key,
         }),
       })
     },
@@ -24,43 +46,146 @@ export const MultipleChoiceAnswerHandler: NodeHandler<'multipleChoiceAnswer'> =
         createValue: (key) => ({
           isCorrect: BooleanHandler.createEmpty(state, key).key,
           answer: TextHandler.createEmpty(state, key).key,
+          feedback: ContentHandler.createEmpty(state, key).key,
         }),
       })
     },
     read(state, key) {
-      const { isCorrect, answer } = state.getEntry(key).value
+      const { isCorrect, answer, feedback } = state.getEntry(key).value
       return {
         type: 'multipleChoiceAnswer',
         isCorrect: BooleanHandler.read(state, isCorrect),
         answer: TextHandler.read(state, answer),
+        ...(isEmptyContent(state, feedback)
+          ? {}
+          : { feedback: ContentHandler.read(state, feedback) }),
       }
     },
-    render(manager, { key, value }) {
-      const { isCorrect, answer } = value
+    render(manager, { key, parent, value }) {
+      const { isCorrect, answer, feedback } = value
+      const checked = manager.state.getEntry(isCorrect).value
+      const answersKey = parent as Key<'multipleChoiceAnswers'>
+      const answers = manager.state.getEntry(answersKey).value
+      const index = answers.indexOf(key)
+      const mode = getMode(manager.state, answersKey)
 
       return (
-        <div
-          id={key}
-          key={key}
-          data-key={key}
-          className="flex flex-row items-center mb-1"
-        >
-          {BooleanHandler.render(manager, manager.state.getEntry(isCorrect))}
-          {TextHandler.render(manager, manager.state.getEntry(answer))}
+        <div id={key} key={key} data-key={key} className="mb-1">
+          <div className="flex flex-row items-center">
+            <input
+              id={isCorrect}
+              key={isCorrect}
+              data-key={isCorrect}
+              type={mode === 'single' ? 'radio' : 'checkbox'}
+              name={mode === 'single' ? answersKey : undefined}
+              checked={checked}
+              className={
+                mode === 'single'
+                  ? 'radio mr-2 radio-info'
+                  : 'checkbox mr-2 checkbox-info'
+              }
+              onChange={() => {
+                manager.update((state) => {
+                  setCorrectAnswer(state, key, !checked)
+                })
+              }}
+            />
+            {TextHandler.render(manager, manager.state.getEntry(answer))}
+            <span
+              className="ml-auto flex flex-row gap-1"
+              contentEditable={false}
+            >
+              {renderItemButton({
+                icon: 'arrow-up',
+                label: 'Move answer up',
+                disabled: index <= 0,
+                onClick: () => {
+                  manager.update((state) => {
+                    moveChildren(state, answersKey, index, index, -1)
+                  })
+                },
+              })}
+              {renderItemButton({
+                icon: 'arrow-down',
+                label: 'Move answer down',
+                disabled: index >= answers.length - 1,
+                onClick: () => {
+                  manager.update((state) => {
+                    moveChildren(state, answersKey, index, index, 1)
+                  })
+                },
+              })}
+            </span>
+          </div>
+          <div className="ml-8 border-l-2 border-info pl-2 text-sm">
+            <span
+              className="text-xs font-sans opacity-60 select-none"
+              contentEditable={false}
+            >
+              Feedback (optional)
+            </span>
+            {ContentHandler.render(manager, manager.state.getEntry(feedback))}
+          </div>
         </div>
       )
     },
+    renderHtml(state, { value }) {
+      // Whether the answer is correct is part of the exercise's solution
+      return `<li>${TextHandler.renderHtml(state, state.getEntry(value.answer))}</li>`
+    },
     selectStart(state, { value }) {
       TextHandler.selectStart(state, state.getEntry(value.answer))
     },
     selectEnd(state, { value }) {
       TextHandler.selectEnd(state, state.getEntry(value.answer))
     },
-    split() {
-      return null
+    split(state, entry, [part, ...next], newParentKey) {
+      if (part !== 'answer' || next == null) return null
+
+      const answer = state.getEntry(entry.value.answer)
+
+      const newEntry = state.insert({
+        type: 'multipleChoiceAnswer',
+        parent: newParentKey ?? entry.parent,
+        createValue: (key) => {
+          const split = TextHandler.split(
+            state,
+            answer,
+            next as IndexPath<'text'>,
+            key,
+          )
+
+          if (split == null) return null
+
+          return {
+            isCorrect: BooleanHandler.createEmpty(state, key).key,
+            answer: split[1].key,
+            feedback: ContentHandler.createEmpty(state, key).key,
+          }
+        },
+      })
+
+      if (newEntry == null) return null
+
+      return [entry, newEntry]
     },
-    merge() {
-      return null
+    merge(state, { value }, { value: secondValue }) {
+      // Merging must not remove the only correct answer
+      if (state.getEntry(secondValue.isCorrect).value) {
+        state.update(value.isCorrect, true)
+      }
+
+      ContentHandler.merge(
+        state,
+        state.getEntry(value.feedback),
+        state.getEntry(secondValue.feedback),
+      )
+
+      return TextHandler.merge(
+        state,
+        state.getEntry(value.answer),
+        state.getEntry(secondValue.answer),
+      )
     },
     select(state, { key, value }, [part, ...next]) {
       if (part === 'isCorrect' && next != null) {
@@ -71,6 +196,10 @@ export const MultipleChoiceAnswerHandler: NodeHandler<'multipleChoiceAnswer'> =
         const child = state.getEntry(value.answer)
 
         TextHandler.select(state, child, next as IndexPath<'text'>)
+      } else if (part === 'feedback' && next != null) {
+        const child = state.getEntry(value.feedback)
+
+        ContentHandler.select(state, child, next as IndexPath<'content'>)
       } else {
         state.setCaret({ key })
       }
@@ -78,17 +207,31 @@ export const MultipleChoiceAnswerHandler: NodeHandler<'multipleChoiceAnswer'> =
     getIndexWithin({ value }, childKey) {
       if (childKey === value.isCorrect) return 'isCorrect'
       if (childKey === value.answer) return 'answer'
+      if (childKey === value.feedback) return 'feedback'
       throw new Error('Child not found')
     },
-    onCommand: {},
+    onCommand: {
+      // Deleting at the boundaries of the feedback must not merge the answer
+      // with its neighbours
+      deleteBackward(_, __, [part]) {
+        return part === 'feedback' ? { success: true } : null
+      },
+      deleteForward(_, __, [part]) {
+        return part === 'feedback' ? { success: true } : null
+      },
+    },
   }
 
 export const MultipleChoiceHandler: NodeHandler<'multipleChoice'> = {
-  insert(state, parent, { task, answers }) {
+  insert(state, parent, { mode, task, answers }) {
     return state.insert({
       type: 'multipleChoice',
       parent,
       createValue: (key) => ({
+        mode:
+          mode != null
+            ? MultipleChoiceModeHandler.insert(state, key, mode).key
+            : MultipleChoiceModeHandler.createEmpty(state, key).key,
         task: ContentHandler.insert(state, key, task).key,
         answers: MultipleChoiceAnswersHandler.insert(state, key, answers).key,
       }),
@@ -99,21 +242,31 @@ export const MultipleChoiceHandler: NodeHandler<'multipleChoice'> = {
       type: 'multipleChoice',
       parent,
       createValue: (key) => ({
+        mode: MultipleChoiceModeHandler.createEmpty(state, key).key,
         task: ContentHandler.createEmpty(state, key).key,
         answers: MultipleChoiceAnswersHandler.createEmpty(state, key).key,
       }),
     })
   },
   read(state, key) {
-    const { task, answers } = state.getEntry(key).value
+    const entry = state.getEntry(key)
+    const { task, answers } = entry.value
     return {
       type: 'multipleChoice',
+      mode: getExerciseMode(state, entry),
       task: ContentHandler.read(state, task),
       answers: MultipleChoiceAnswersHandler.read(state, answers),
     }
   },
-  render(manager, { key, value }) {
-    const { task, answers } = value
+  render(manager, entry) {
+    const { key, value } = entry
+    const { mode, task, answers } = value
+
+    if (manager.mode === 'preview') {
+      return (
+        <MultipleChoiceExercise key={key} manager={manager} entry={entry} />
+      )
+    }
 
     return (
       <div
@@ -122,7 +275,29 @@ export const MultipleChoiceHandler: NodeHandler<'multipleChoice'> = {
         data-key={key}
         className="card bg-base-300 text-base-content p-4 mb-4"
       >
-        <p className="font-medium font-sans">QUIZ</p>
+        {renderExerciseHeader(
+          manager,
+          key,
+          'QUIZ',
+          <select
+            className="select select-sm w-auto"
+            contentEditable={false}
+            aria-label="Type of the quiz"
+            value={manager.state.getEntry(mode).value}
+            onChange={(event) => {
+              manager.update((state) => {
+                setMultipleChoiceMode(
+                  state,
+                  key,
+                  event.target.value as MultipleChoiceMode,
+                )
+              })
+            }}
+          >
+            <option value="single">Single choice</option>
+            <option value="multiple">Multiple answers</option>
+          </select>,
+        )}
         <div className="font-bold">
           {ContentHandler.render(manager, manager.state.getEntry(task))}
         </div>
@@ -133,6 +308,36 @@ export const MultipleChoiceHandler: NodeHandler<'multipleChoice'> = {
       </div>
     )
   },
+  renderHtml(state, { key, value }) {
+    const task = ContentHandler.renderHtml(state, state.getEntry(value.task))
+    const answers = state
+      .getEntry(value.answers)
+      .value.map((answerKey) => state.getEntry(answerKey).value)
+    const type =
+      getMode(state, value.answers) === 'single' ? 'radio' : 'checkbox'
+    const answersHtml = answers
+      .map(
+        ({ answer }, index) =>
+          `<li><label><input type="${type}" name="${escapeHtml(key)}" value="${index}"> ${TextHandler.renderHtml(state, state.getEntry(answer))}</label><div class="feedback" hidden></div></li>`,
+      )
+      .join('')
+
+    return renderExerciseHtml({
+      type: 'multipleChoice',
+      title: 'QUIZ',
+      solution: {
+        correct: answers.map(
+          ({ isCorrect }) => state.getEntry(isCorrect).value,
+        ),
+        feedback: answers.map(({ feedback }) =>
+          isEmptyContent(state, feedback)
+            ? null
+            : ContentHandler.renderHtml(state, state.getEntry(feedback)),
+        ),
+      },
+      content: `<div class="exercise-task">${task}</div><ul class="answers">${answersHtml}</ul>`,
+    })
+  },
   selectStart(state, { value }) {
     ContentHandler.selectStart(state, state.getEntry(value.task))
   },
@@ -146,42 +351,213 @@ export const MultipleChoiceHandler: NodeHandler<'multipleChoice'> = {
     return null
   },
   select(state, { key, value }, [part, ...next]) {
-    if (part === 'task' && next != null) {
+    if (part === 'mode' && next != null) {
+      const child = state.getEntry(value.mode)
+
+      MultipleChoiceModeHandler.select(
+        state,
+        child,
+        next as IndexPath<'multipleChoiceMode'>,
+      )
+    } else if (part === 'task' && next != null) {
       const child = state.getEntry(value.task)
 
-      ContentHandler.select(state, child, next as IndexPath<'text'>)
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
     } else if (part === 'answers' && next != null) {
       const child = state.getEntry(value.answers)
 
       MultipleChoiceAnswersHandler.select(
         state,
         child,
-        next as IndexPath<'text'>,
+        next as IndexPath<'multipleChoiceAnswers'>,
       )
     } else {
       state.setCaret({ key })
     }
   },
   getIndexWithin({ value }, childKey) {
+    if (childKey === value.mode) return 'mode'
     if (childKey === value.task) return 'task'
     if (childKey === value.answers) return 'answers'
     throw new Error('Child not found')
   },
   onCommand: {
-    deleteBackward() {
-      return { success: true }
+    // Deleting at the boundaries of the exercise must not merge it with the
+    // surrounding content. Only a quiz which is selected as a whole is deleted
+    // (by its parent).
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
     },
-    deleteForward() {
-      return { success: true }
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
     },
   },
 }
 
-export const MultipleChoiceAnswersHandler = createArrayHandler({
+/**
+ * Learner view of a multiple choice exercise. Which answers are correct is
+ * only read from the state when the answers are checked, so that it cannot be
+ * found in the DOM. After checking, the feedback of the picked answers is
+ * shown.
+ */
+function MultipleChoiceExercise({
+  manager,
+  entry,
+}: {
+  manager: StateManager<'root'>
+  entry: Entry<'multipleChoice'>
+}) {
+  const [selected, setSelected] = useState<Key<'multipleChoiceAnswer'>[]>([])
+  const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null)
+  const { key, value } = entry
+  const answers = manager.state.getEntry(value.answers).value
+  const isSingleChoice = getMode(manager.state, value.answers) === 'single'
+
+  const toggleAnswer = (answerKey: Key<'multipleChoiceAnswer'>) => {
+    setSelected((selected) =>
+      isSingleChoice
+        ? [answerKey]
+        : selected.includes(answerKey)
+          ? selected.filter((k) => k !== answerKey)
+          : [...selected, answerKey],
+    )
+    setFeedback(null)
+  }
+
+  const checkAnswers = () => {
+    const isSolved = answers.every((answerKey) => {
+      const { isCorrect } = manager.state.getEntry(answerKey).value
+
+      return (
+        manager.state.getEntry(isCorrect).value === selected.includes(answerKey)
+      )
+    })
+
+    setFeedback(isSolved ? 'correct' : 'wrong')
+  }
+
+  return (
+    <div
+      id={key}
+      data-key={key}
+      className="card bg-base-300 text-base-content p-4 mb-4"
+    >
+      <p className="font-medium font-sans">QUIZ</p>
+      <div className="font-bold">
+        {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+      </div>
+      {answers.map((answerKey) => {
+        const answer = manager.state.getEntry(answerKey)
+        const showFeedback =
+          feedback != null &&
+          selected.includes(answerKey) &&
+          !isEmptyContent(manager.state, answer.value.feedback)
+
+        return (
+          <div key={answerKey} className="mb-1">
+            <label className="flex flex-row items-center cursor-pointer">
+              <input
+                type={isSingleChoice ? 'radio' : 'checkbox'}
+                name={isSingleChoice ? key : undefined}
+                checked={selected.includes(answerKey)}
+                className={
+                  isSingleChoice
+                    ? 'radio mr-2 radio-info'
+                    : 'checkbox mr-2 checkbox-info'
+                }
+                onChange={() => toggleAnswer(answerKey)}
+              />
+              {TextHandler.render(
+                manager,
+                manager.state.getEntry(answer.value.answer),
+              )}
+            </label>
+            {showFeedback ? (
+              <div className="ml-8 border-l-2 border-info pl-2 text-sm">
+                {ContentHandler.render(
+                  manager,
+                  manager.state.getEntry(answer.value.feedback),
+                )}
+              </div>
+            ) : null}
+          </div>
+        )
+      })}
+      <div className="flex flex-row items-center gap-4 mt-2">
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          disabled={selected.length === 0}
+          onClick={checkAnswers}
+        >
+          Check
+        </button>
+        {feedback != null ? (
+          <output
+            className={feedback === 'correct' ? 'text-success' : 'text-error'}
+          >
+            {feedback === 'correct' ? 'Correct!' : 'Not quite. Try again!'}
+          </output>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+const MultipleChoiceAnswersArrayHandler = createArrayHandler({
   type: 'multipleChoiceAnswers',
   childHandler: MultipleChoiceAnswerHandler,
+  minChildren: 2,
+  isMovable: true,
 })
 
+export const MultipleChoiceAnswersHandler: NodeHandler<'multipleChoiceAnswers'> =
+  {
+    ...MultipleChoiceAnswersArrayHandler,
+    onCommand: {
+      ...MultipleChoiceAnswersArrayHandler.onCommand,
+      deleteRange(state, node, start, end) {
+        const result =
+          MultipleChoiceAnswersArrayHandler.onCommand.deleteRange?.(
+            state,
+            node,
+            start,
+            end,
+          ) ?? null
+
+        normalizeCorrectAnswers(state, node.key)
+
+        return result
+      },
+      deleteBackward(state, node, start, end) {
+        const result =
+          MultipleChoiceAnswersArrayHandler.onCommand.deleteBackward?.(
+            state,
+            node,
+            start,
+            end,
+          ) ?? null
+
+        normalizeCorrectAnswers(state, node.key)
+
+        return result
+      },
+      deleteForward(state, node, start, end) {
+        const result =
+          MultipleChoiceAnswersArrayHandler.onCommand.deleteForward?.(
+            state,
+            node,
+            start,
+            end,
+          ) ?? null
+
+        normalizeCorrectAnswers(state, node.key)
+
+        return result
+      },
+    },
+  }
+
 export const BooleanHandler: NodeHandler<'boolean'> = {
   ...createPrimitiveHandler({
     type: 'boolean',
@@ -205,3 +581,117 @@ export const BooleanHandler: NodeHandler<'boolean'> = {
     )
   },
 }
+
+export const MultipleChoiceModeHandler: NodeHandler<'multipleChoiceMode'> =
+  createPrimitiveHandler({ type: 'multipleChoiceMode', emptyValue: 'multiple' })
+
+function getMode(
+  state: ReadonlyState,
+  answersKey: Key<'multipleChoiceAnswers'>,
+): MultipleChoiceMode {
+  const answers = state.getEntry(answersKey)
+
+  return getExerciseMode(
+    state,
+    state.getEntry(answers.parent as Key<'multipleChoice'>),
+  )
+}
+
+/**
+ * Exercises which were created before the single choice mode was added (also
+ * by peers running an older version) have no mode. Like then, any number of
+ * their answers can be correct.
+ */
+function getExerciseMode(
+  state: ReadonlyState,
+  { value }: Entry<'multipleChoice'>,
+): MultipleChoiceMode {
+  return hasMode(state, value) ? state.getEntry(value.mode).value : 'multiple'
+}
+
+function hasMode(
+  state: ReadonlyState,
+  value: EntryValue<'multipleChoice'>,
+): boolean {
+  return value.mode != null && state.entries.has(value.mode)
+}
+
+/**
+ * Changes the mode of an exercise. In the single choice mode only the first
+ * correct answer stays correct.
+ */
+function setMultipleChoiceMode(
+  state: WritableState,
+  exerciseKey: Key<'multipleChoice'>,
+  mode: MultipleChoiceMode,
+) {
+  const { value } = state.getEntry(exerciseKey)
+
+  if (hasMode(state, value)) {
+    state.update(value.mode, mode)
+  } else {
+    state.update(exerciseKey, {
+      ...value,
+      mode: MultipleChoiceModeHandler.insert(state, exerciseKey, mode).key,
+    })
+  }
+
+  normalizeCorrectAnswers(state, value.answers)
+}
+
+/**
+ * Marks an answer as correct or wrong. The last correct answer of an exercise
+ * cannot be marked as wrong. In the single choice mode marking an answer as
+ * correct marks all other answers as wrong.
+ */
+function setCorrectAnswer(
+  state: WritableState,
+  answerKey: Key<'multipleChoiceAnswer'>,
+  isCorrect: boolean,
+) {
+  const answer = state.getEntry(answerKey)
+  const answersKey = answer.parent as Key<'multipleChoiceAnswers'>
+  const otherAnswers = state
+    .getEntry(answersKey)
+    .value.filter((otherKey) => otherKey !== answerKey)
+    .map((otherKey) => state.getEntry(otherKey))
+
+  if (isCorrect && getMode(state, answersKey) === 'single') {
+    for (const { value } of otherAnswers) state.update(value.isCorrect, false)
+  }
+
+  if (
+    !isCorrect &&
+    !otherAnswers.some(({ value }) => state.getEntry(value.isCorrect).value)
+  )
+    return
+
+  state.update(answer.value.isCorrect, isCorrect)
+}
+
+/**
+ * Restores the rules for correct answers after answers were changed (for
+ * example when the correct answer was deleted): At least one answer must be
+ * correct, and in the single choice mode exactly one.
+ */
+function normalizeCorrectAnswers(
+  state: WritableState,
+  answersKey: Key<'multipleChoiceAnswers'>,
+) {
+  const answers = state
+    .getEntry(answersKey)
+    .value.map((answerKey) => state.getEntry(answerKey))
+  const correctAnswers = answers.filter(
+    ({ value }) => state.getEntry(value.isCorrect).value,
+  )
+
+  if (answers.length === 0) return
+
+  if (correctAnswers.length === 0) {
+    state.update(answers[0].value.isCorrect, true)
+  } else if (getMode(state, answersKey) === 'single') {
+    for (const { value } of correctAnswers.slice(1)) {
+      state.update(value.isCorrect, false)
+    }
+  }
+}
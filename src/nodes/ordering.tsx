@@ -0,0 +1,336 @@
+import { icons } from 'feather-icons'
+import { useState } from 'react'
+import { Command } from '../command'
+import type { IndexPath } from '../selection'
+import type { Entry, Key, StateManager } from '../state'
+import { ContentHandler } from './content'
+import {
+  createArrayHandler,
+  createWrappedHandler,
+  moveChildren,
+  renderExerciseHeader,
+  renderExerciseHtml,
+  renderItemButton,
+  shuffleItems,
+} from './helper'
+import { TextHandler } from './text'
+import type { NodeHandler } from './types/node-handler'
+
+export const OrderingItemHandler: NodeHandler<'orderingItem'> = {
+  ...createWrappedHandler<{ type: 'orderingItem'; childType: 'text' }>({
+    type: 'orderingItem',
+    childHandler: TextHandler,
+  }),
+  render(manager, { key, parent, value }) {
+    const itemsKey = parent as Key<'orderingItems'>
+    const items = manager.state.getEntry(itemsKey).value
+    const index = items.indexOf(key)
+
+    return (
+      <li id={key} key={key} data-key={key} className="mb-1">
+        <div className="flex flex-row items-center">
+          {TextHandler.render(manager, manager.state.getEntry(value))}
+          <span className="ml-auto flex flex-row gap-1" contentEditable={false}>
+            {renderItemButton({
+              icon: 'arrow-up',
+              label: 'Move item up',
+              disabled: index <= 0,
+              onClick: () => {
+                manager.update((state) => {
+                  moveChildren(state, itemsKey, index, index, -1)
+                })
+              },
+            })}
+            {renderItemButton({
+              icon: 'arrow-down',
+              label: 'Move item down',
+              disabled: index >= items.length - 1,
+              onClick: () => {
+                manager.update((state) => {
+                  moveChildren(state, itemsKey, index, index, 1)
+                })
+              },
+            })}
+            {renderItemButton({
+              icon: 'x',
+              label: 'Remove item',
+              disabled: items.length <= minItems,
+              onClick: () => {
+                manager.update((state) => state.setCaret({ key }))
+                manager.dispatchCommand(Command.DeleteForward)
+              },
+            })}
+          </span>
+        </div>
+      </li>
+    )
+  },
+}
+
+const minItems = 2
+
+const OrderingItemsArrayHandler = createArrayHandler({
+  type: 'orderingItems',
+  childHandler: OrderingItemHandler,
+  minChildren: minItems,
+  isMovable: true,
+})
+
+export const OrderingItemsHandler: NodeHandler<'orderingItems'> = {
+  ...OrderingItemsArrayHandler,
+  render(manager, { key, value }) {
+    return (
+      <ol id={key} key={key} data-key={key} className="list-decimal ml-6">
+        {value.map((itemKey) =>
+          OrderingItemHandler.render(manager, manager.state.getEntry(itemKey)),
+        )}
+      </ol>
+    )
+  },
+}
+
+export const OrderingHandler: NodeHandler<'ordering'> = {
+  insert(state, parent, { task, items }) {
+    return state.insert({
+      type: 'ordering',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.insert(state, key, task).key,
+        items: OrderingItemsHandler.insert(state, key, items).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'ordering',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.createEmpty(state, key).key,
+        items: OrderingItemsHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { task, items } = state.getEntry(key).value
+    return {
+      type: 'ordering',
+      task: ContentHandler.read(state, task),
+      items: OrderingItemsHandler.read(state, items),
+    }
+  },
+  render(manager, entry) {
+    const { key, value } = entry
+
+    if (manager.mode === 'preview') {
+      return <OrderingExercise key={key} manager={manager} entry={entry} />
+    }
+
+    return (
+      <div
+        id={key}
+        key={key}
+        data-key={key}
+        className="card bg-base-300 text-base-content p-4 mb-4"
+      >
+        {renderExerciseHeader(manager, key, 'ORDERING')}
+        <div className="font-bold">
+          {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+        </div>
+        {OrderingItemsHandler.render(
+          manager,
+          manager.state.getEntry(value.items),
+        )}
+        <div
+          className="flex flex-row items-center gap-4 mt-2"
+          contentEditable={false}
+        >
+          <button
+            type="button"
+            className="btn btn-ghost btn-sm"
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={() => {
+              manager.update((state) => {
+                const item = OrderingItemHandler.createEmpty(state, value.items)
+
+                state.update(value.items, (items) => [...items, item.key])
+                OrderingItemHandler.selectStart(state, item)
+              })
+            }}
+          >
+            <img
+              src={`data:image/svg+xml;utf8,${encodeURIComponent(icons.plus.toSvg())}`}
+              className="inline mr-2"
+              alt=""
+            />
+            Add item
+          </button>
+          <span className="text-xs font-sans opacity-60 select-none">
+            Enter the items in the correct order. Learners see them shuffled.
+          </span>
+        </div>
+      </div>
+    )
+  },
+  renderHtml(state, { value }) {
+    const task = ContentHandler.renderHtml(state, state.getEntry(value.task))
+    const items = state.getEntry(value.items).value
+    const shuffled = shuffleItems(items)
+    const itemsHtml = shuffled
+      .map(
+        (itemKey, position) =>
+          `<li data-position="${position}">${OrderingItemHandler.renderHtml(state, state.getEntry(itemKey))}<span class="item-buttons"><button type="button" data-move="-1" aria-label="Move item up">↑</button><button type="button" data-move="1" aria-label="Move item down">↓</button></span></li>`,
+      )
+      .join('')
+
+    return renderExerciseHtml({
+      type: 'ordering',
+      title: 'ORDERING',
+      // Positions of the items in the shuffled list in the correct order
+      solution: items.map((itemKey) => shuffled.indexOf(itemKey)),
+      content: `<div class="exercise-task">${task}</div><ol class="items">${itemsHtml}</ol>`,
+    })
+  },
+  selectStart(state, { value }) {
+    ContentHandler.selectStart(state, state.getEntry(value.task))
+  },
+  selectEnd(state, { value }) {
+    OrderingItemsHandler.selectEnd(state, state.getEntry(value.items))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if (part === 'task' && next != null) {
+      const child = state.getEntry(value.task)
+
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
+    } else if (part === 'items' && next != null) {
+      const child = state.getEntry(value.items)
+
+      OrderingItemsHandler.select(
+        state,
+        child,
+        next as IndexPath<'orderingItems'>,
+      )
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.task) return 'task'
+    if (childKey === value.items) return 'items'
+    throw new Error('Child not found')
+  },
+  onCommand: {
+    // Like for multiple choice exercises deleting at the boundaries must not
+    // merge the exercise with the surrounding content
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+/**
+ * Learner view of an ordering exercise. The items are shown in a shuffled
+ * order which learners rearrange until it matches the stored order.
+ */
+function OrderingExercise({
+  manager,
+  entry,
+}: {
+  manager: StateManager<'root'>
+  entry: Entry<'ordering'>
+}) {
+  const { key, value } = entry
+  const items = manager.state.getEntry(value.items).value
+  const [shuffled, setShuffled] = useState(() => shuffleItems(items))
+  const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null)
+
+  // Items which were added or removed by others since the exercise was
+  // shuffled are appended or dropped
+  const order = [
+    ...shuffled.filter((itemKey) => items.includes(itemKey)),
+    ...items.filter((itemKey) => !shuffled.includes(itemKey)),
+  ]
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const newOrder = [...order]
+    const [item] = newOrder.splice(index, 1)
+
+    newOrder.splice(index + direction, 0, item)
+    setShuffled(newOrder)
+    setFeedback(null)
+  }
+
+  const checkOrder = () => {
+    const currentItems = manager.state.getEntry(value.items).value
+    const isSolved = currentItems.every((itemKey, i) => order[i] === itemKey)
+
+    setFeedback(isSolved ? 'correct' : 'wrong')
+  }
+
+  return (
+    <div
+      id={key}
+      data-key={key}
+      className="card bg-base-300 text-base-content p-4 mb-4"
+    >
+      <p className="font-medium font-sans">ORDERING</p>
+      <div className="font-bold">
+        {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+      </div>
+      <ol className="list-decimal ml-6">
+        {order.map((itemKey, index) => {
+          const item = manager.state.getEntry(itemKey)
+
+          return (
+            <li key={itemKey} className="mb-1">
+              <div className="flex flex-row items-center">
+                {TextHandler.render(
+                  manager,
+                  manager.state.getEntry(item.value),
+                )}
+                <span className="ml-auto flex flex-row gap-1">
+                  {renderItemButton({
+                    icon: 'arrow-up',
+                    label: 'Move item up',
+                    disabled: index <= 0,
+                    onClick: () => moveItem(index, -1),
+                  })}
+                  {renderItemButton({
+                    icon: 'arrow-down',
+                    label: 'Move item down',
+                    disabled: index >= order.length - 1,
+                    onClick: () => moveItem(index, 1),
+                  })}
+                </span>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+      <div className="flex flex-row items-center gap-4 mt-2">
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={checkOrder}
+        >
+          Check
+        </button>
+        {feedback != null ? (
+          <output
+            className={feedback === 'correct' ? 'text-success' : 'text-error'}
+          >
+            {feedback === 'correct' ? 'Correct!' : 'Not quite. Try again!'}
+          </output>
+        ) : null}
+      </div>
+    </div>
+  )
+}
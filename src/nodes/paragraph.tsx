@@ -14,4 +14,7 @@ export const ParagraphHandler: NodeHandler<'paragraph'> = {
       </p>
     )
   },
+  renderHtml(state, { value }) {
+    return `<p>${TextHandler.renderHtml(state, state.getEntry(value))}</p>`
+  },
 }
@@ -0,0 +1,413 @@
+import { isCodeLanguage } from '../code'
+import type { ReadonlyState } from '../state'
+import { isKey, isKeyType, type Key, parseType } from '../state/key'
+import type {
+  HeadingLevel,
+  Marks,
+  MultipleChoiceMode,
+} from './types/node-description'
+import type { NodeSchema } from './types/node-schema'
+import type { NodeType } from './types/node-types'
+
+/**
+ * Problem found by a validator. `path` points to the invalid part, like
+ * `root[2].answers[0].isCorrect` for JSON values or `12-3:heading.level` for
+ * entries.
+ */
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export const nodeSchemas: { [T in NodeType]: NodeSchema<T> } = {
+  root: {
+    kind: 'array',
+    childTypes: {
+      paragraph: true,
+      heading: true,
+      bulletList: true,
+      orderedList: true,
+      multipleChoice: true,
+      cloze: true,
+      textInput: true,
+      ordering: true,
+      matching: true,
+      image: true,
+      formula: true,
+      codeBlock: true,
+    },
+  },
+  content: {
+    kind: 'array',
+    childTypes: { paragraph: true, bulletList: true, orderedList: true },
+  },
+  paragraph: { kind: 'wrapped', childType: 'text' },
+  formula: { kind: 'wrapped', childType: 'text' },
+  codeBlock: {
+    kind: 'object',
+    children: { language: 'codeLanguage', code: 'text' },
+    optional: {},
+  },
+  codeLanguage: {
+    kind: 'primitive',
+    isValid: isCodeLanguage,
+    expected: 'a supported language',
+  },
+  heading: {
+    kind: 'object',
+    children: { level: 'headingLevel', value: 'text' },
+    optional: {},
+  },
+  headingLevel: {
+    kind: 'primitive',
+    isValid: (value): value is HeadingLevel =>
+      value === 1 || value === 2 || value === 3,
+    expected: '1, 2 or 3',
+  },
+  bulletList: {
+    kind: 'object',
+    children: { items: 'listItems' },
+    optional: {},
+  },
+  orderedList: {
+    kind: 'object',
+    children: { items: 'listItems' },
+    optional: {},
+  },
+  listItems: { kind: 'array', childTypes: { listItem: true } },
+  listItem: { kind: 'wrapped', childType: 'content' },
+  text: { kind: 'text' },
+  multipleChoice: {
+    kind: 'object',
+    children: {
+      mode: 'multipleChoiceMode',
+      task: 'content',
+      answers: 'multipleChoiceAnswers',
+    },
+    optional: { mode: true },
+  },
+  multipleChoiceMode: {
+    kind: 'primitive',
+    isValid: (value): value is MultipleChoiceMode =>
+      value === 'single' || value === 'multiple',
+    expected: '"single" or "multiple"',
+  },
+  multipleChoiceAnswers: {
+    kind: 'array',
+    childTypes: { multipleChoiceAnswer: true },
+  },
+  multipleChoiceAnswer: {
+    kind: 'object',
+    children: { answer: 'text', isCorrect: 'boolean', feedback: 'content' },
+    optional: { feedback: true },
+  },
+  cloze: {
+    kind: 'object',
+    children: { task: 'content', text: 'content' },
+    optional: {},
+  },
+  textInput: {
+    kind: 'object',
+    children: { task: 'content', solution: 'content' },
+    optional: {},
+  },
+  ordering: {
+    kind: 'object',
+    children: { task: 'content', items: 'orderingItems' },
+    optional: {},
+  },
+  orderingItems: { kind: 'array', childTypes: { orderingItem: true } },
+  orderingItem: { kind: 'wrapped', childType: 'text' },
+  matching: {
+    kind: 'object',
+    children: { task: 'content', pairs: 'matchingPairs' },
+    optional: {},
+  },
+  matchingPairs: { kind: 'array', childTypes: { matchingPair: true } },
+  matchingPair: {
+    kind: 'object',
+    children: { term: 'content', match: 'content' },
+    optional: {},
+  },
+  image: {
+    kind: 'object',
+    children: {
+      src: 'string',
+      alt: 'string',
+      caption: 'content',
+      license: 'string',
+      author: 'string',
+      sourceUrl: 'string',
+    },
+    optional: { caption: true, license: true, author: true, sourceUrl: true },
+  },
+  boolean: {
+    kind: 'primitive',
+    isValid: (value): value is boolean => typeof value === 'boolean',
+    expected: 'true or false',
+  },
+  string: {
+    kind: 'primitive',
+    isValid: (value): value is string => typeof value === 'string',
+    expected: 'a string',
+  },
+}
+
+/**
+ * Checks that `value` is a valid JSON value of the given type (like content
+ * which is pasted or loaded). Returns all problems which were found.
+ */
+export function validateJson(
+  type: NodeType,
+  value: unknown,
+  path: string = type,
+): ValidationIssue[] {
+  const schema = getSchema(type)
+
+  switch (schema.kind) {
+    case 'text':
+      return validateText(value, path)
+    case 'primitive':
+      return schema.isValid(value)
+        ? []
+        : [
+            {
+              path,
+              message: `Expected ${schema.expected}, got ${describe(value)}`,
+            },
+          ]
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path, message: `Expected a list, got ${describe(value)}` }]
+      }
+
+      const childTypes = Object.keys(schema.childTypes) as NodeType[]
+
+      return value.flatMap((child: unknown, index) => {
+        const childPath = `${path}[${index}]`
+        const childType = isObject(child) ? child.type : undefined
+
+        if (!childTypes.some((allowedType) => allowedType === childType)) {
+          return [
+            {
+              path: childPath,
+              message: `Expected an element of type ${childTypes.join(', ')}, got ${describe(childType ?? child)}`,
+            },
+          ]
+        }
+
+        return validateJson(childType as NodeType, child, childPath)
+      })
+    }
+    case 'wrapped':
+      return validateProperties(type, value, path, { value: schema.childType })
+    case 'object':
+      return validateProperties(
+        type,
+        value,
+        path,
+        schema.children,
+        Object.keys(schema.optional),
+      )
+  }
+}
+
+/**
+ * Checks an entry of the shared document, for example one which was added by
+ * a peer. Only the entry itself is checked, not its children.
+ */
+export function validateEntry(
+  state: ReadonlyState,
+  key: Key,
+): ValidationIssue[] {
+  const entry = state.entries.get(key)
+  const type = parseType(key)
+
+  if (entry == null) return []
+
+  if (!isObject(entry) || entry.type !== type || entry.key !== key) {
+    return [{ path: key, message: `Expected an entry of type ${type}` }]
+  }
+
+  const issues: ValidationIssue[] = []
+  const schema = getSchema(type)
+  const { parent, value } = entry
+
+  if (parent !== null && !isKey(parent)) {
+    issues.push({ path: `${key}.parent`, message: 'Expected a key or null' })
+  }
+
+  const checkChild = (child: unknown, childPath: string, types: NodeType[]) => {
+    if (
+      !isKey(child) ||
+      !types.some((childType) => isKeyType(childType, child))
+    ) {
+      issues.push({
+        path: childPath,
+        message: `Expected a key of type ${types.join(', ')}, got ${describe(child)}`,
+      })
+    }
+  }
+
+  switch (schema.kind) {
+    case 'text':
+      if (state.texts.get(key) == null) {
+        issues.push({ path: key, message: 'The text is missing' })
+      }
+      break
+    case 'primitive':
+      if (!schema.isValid(value)) {
+        issues.push({
+          path: `${key}.value`,
+          message: `Expected ${schema.expected}, got ${describe(value)}`,
+        })
+      }
+      break
+    case 'wrapped':
+      checkChild(value, `${key}.value`, [schema.childType])
+      break
+    case 'array':
+      if (Array.isArray(value)) {
+        const childTypes = Object.keys(schema.childTypes) as NodeType[]
+
+        value.forEach((child: unknown, index) => {
+          checkChild(child, `${key}.value[${index}]`, childTypes)
+        })
+      } else {
+        issues.push({
+          path: `${key}.value`,
+          message: 'Expected a list of keys',
+        })
+      }
+      break
+    case 'object':
+      if (isObject(value)) {
+        for (const [name, childType] of Object.entries(schema.children)) {
+          checkChild(value[name], `${key}.value.${name}`, [childType])
+        }
+      } else {
+        issues.push({ path: `${key}.value`, message: 'Expected an object' })
+      }
+      break
+  }
+
+  return issues
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(({ path, message }) => `${path}: ${message}`).join('\n')
+}
+
+/**
+ * `nodeSchemas` with the schema of all node types joined into one type, which
+ * is easier to handle when the node type is not known statically.
+ */
+function getSchema(type: NodeType): NodeSchema<NodeType> {
+  return nodeSchemas[type] as NodeSchema<NodeType>
+}
+
+function validateProperties(
+  type: NodeType,
+  value: unknown,
+  path: string,
+  children: Record<string, NodeType>,
+  optional: string[] = [],
+): ValidationIssue[] {
+  if (!isObject(value)) {
+    return [{ path, message: `Expected an object, got ${describe(value)}` }]
+  }
+
+  const issues: ValidationIssue[] = []
+
+  if (value.type !== type) {
+    issues.push({
+      path: `${path}.type`,
+      message: `Expected "${type}", got ${describe(value.type)}`,
+    })
+  }
+
+  for (const [name, childType] of Object.entries(children)) {
+    if (value[name] === undefined) {
+      if (!optional.includes(name)) {
+        issues.push({ path: `${path}.${name}`, message: 'Missing property' })
+      }
+    } else {
+      issues.push(...validateJson(childType, value[name], `${path}.${name}`))
+    }
+  }
+
+  for (const name of Object.keys(value)) {
+    if (name !== 'type' && !Object.keys(children).includes(name)) {
+      issues.push({ path: `${path}.${name}`, message: 'Unknown property' })
+    }
+  }
+
+  return issues
+}
+
+function validateText(value: unknown, path: string): ValidationIssue[] {
+  if (typeof value === 'string') return []
+
+  if (!Array.isArray(value)) {
+    return [
+      {
+        path,
+        message: `Expected a string or a list of text spans, got ${describe(value)}`,
+      },
+    ]
+  }
+
+  return value.flatMap((span: unknown, index): ValidationIssue[] => {
+    const spanPath = `${path}[${index}]`
+
+    if (!isObject(span) || typeof span.text !== 'string') {
+      return [{ path: spanPath, message: 'Expected a text span with a text' }]
+    }
+    if (span.marks === undefined) return []
+    if (!isObject(span.marks)) {
+      return [{ path: `${spanPath}.marks`, message: 'Expected an object' }]
+    }
+
+    return Object.entries(span.marks).flatMap(([mark, markValue]) => {
+      const isValid = Object.keys(markValidators).includes(mark)
+        ? markValidators[mark as keyof Marks](markValue)
+        : false
+
+      return isValid
+        ? []
+        : [
+            {
+              path: `${spanPath}.marks.${mark}`,
+              message: Object.keys(markValidators).includes(mark)
+                ? `Invalid value ${describe(markValue)}`
+                : 'Unknown mark',
+            },
+          ]
+    })
+  })
+}
+
+const isTrue = (value: unknown) => value === true
+
+const markValidators: { [M in keyof Marks]-?: (value: unknown) => boolean } = {
+  bold: isTrue,
+  italic: isTrue,
+  underline: isTrue,
+  code: isTrue,
+  math: isTrue,
+  link: (value) => isObject(value) && typeof value.href === 'string',
+  blank: (value) =>
+    isObject(value) &&
+    Array.isArray(value.alternatives) &&
+    value.alternatives.every((answer) => typeof answer === 'string'),
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  const json = JSON.stringify(value) ?? String(value)
+
+  return json.length > 40 ? `${json.slice(0, 39)}…` : json
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import type { IndexPath } from '../selection'
+import type { Entry, StateManager } from '../state'
+import { ContentHandler } from './content'
+import { renderExerciseHeader, renderExerciseHtml } from './helper'
+import type { NodeHandler } from './types/node-handler'
+
+export const TextInputHandler: NodeHandler<'textInput'> = {
+  insert(state, parent, { task, solution }) {
+    return state.insert({
+      type: 'textInput',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.insert(state, key, task).key,
+        solution: ContentHandler.insert(state, key, solution).key,
+      }),
+    })
+  },
+  createEmpty(state, parent) {
+    return state.insert({
+      type: 'textInput',
+      parent,
+      createValue: (key) => ({
+        task: ContentHandler.createEmpty(state, key).key,
+        solution: ContentHandler.createEmpty(state, key).key,
+      }),
+    })
+  },
+  read(state, key) {
+    const { task, solution } = state.getEntry(key).value
+    return {
+      type: 'textInput',
+      task: ContentHandler.read(state, task),
+      solution: ContentHandler.read(state, solution),
+    }
+  },
+  render(manager, entry) {
+    const { key, value } = entry
+
+    if (manager.mode === 'preview') {
+      return <TextInputExercise key={key} manager={manager} entry={entry} />
+    }
+
+    return (
+      <div
+        id={key}
+        key={key}
+        data-key={key}
+        className="card bg-base-300 text-base-content p-4 mb-4"
+      >
+        {renderExerciseHeader(manager, key, 'TEXT INPUT')}
+        <div className="font-bold">
+          {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+        </div>
+        <div className="border-l-2 border-info pl-2">
+          <span
+            className="text-xs font-sans opacity-60 select-none"
+            contentEditable={false}
+          >
+            Sample solution
+          </span>
+          {ContentHandler.render(
+            manager,
+            manager.state.getEntry(value.solution),
+          )}
+        </div>
+      </div>
+    )
+  },
+  renderHtml(state, { value }) {
+    const task = ContentHandler.renderHtml(state, state.getEntry(value.task))
+
+    return renderExerciseHtml({
+      type: 'textInput',
+      title: 'TEXT INPUT',
+      solution: ContentHandler.renderHtml(
+        state,
+        state.getEntry(value.solution),
+      ),
+      content: `<div class="exercise-task">${task}</div><textarea aria-label="Your answer" rows="3"></textarea>`,
+      checkLabel: 'Show sample solution',
+    })
+  },
+  selectStart(state, { value }) {
+    ContentHandler.selectStart(state, state.getEntry(value.task))
+  },
+  selectEnd(state, { value }) {
+    ContentHandler.selectEnd(state, state.getEntry(value.solution))
+  },
+  split() {
+    return null
+  },
+  merge() {
+    return null
+  },
+  select(state, { key, value }, [part, ...next]) {
+    if ((part === 'task' || part === 'solution') && next != null) {
+      const child = state.getEntry(value[part])
+
+      ContentHandler.select(state, child, next as IndexPath<'content'>)
+    } else {
+      state.setCaret({ key })
+    }
+  },
+  getIndexWithin({ value }, childKey) {
+    if (childKey === value.task) return 'task'
+    if (childKey === value.solution) return 'solution'
+    throw new Error('Child not found')
+  },
+  onCommand: {
+    // Like for multiple choice exercises deleting at the boundaries must not
+    // merge the exercise with the surrounding content
+    deleteBackward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+    deleteForward(_, __, [part]) {
+      return part != null ? { success: true } : null
+    },
+  },
+}
+
+/**
+ * Learner view of a text input exercise. Free text cannot be checked
+ * automatically, so learners compare their answer with the sample solution.
+ */
+function TextInputExercise({
+  manager,
+  entry,
+}: {
+  manager: StateManager<'root'>
+  entry: Entry<'textInput'>
+}) {
+  const [answer, setAnswer] = useState('')
+  const [showSolution, setShowSolution] = useState(false)
+  const { key, value } = entry
+
+  return (
+    <div
+      id={key}
+      data-key={key}
+      className="card bg-base-300 text-base-content p-4 mb-4"
+    >
+      <p className="font-medium font-sans">TEXT INPUT</p>
+      <div className="font-bold">
+        {ContentHandler.render(manager, manager.state.getEntry(value.task))}
+      </div>
+      <textarea
+        aria-label="Your answer"
+        className="textarea textarea-bordered w-full"
+        rows={3}
+        value={answer}
+        onChange={(event) => setAnswer(event.target.value)}
+      />
+      <div className="mt-2">
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={() => setShowSolution((show) => !show)}
+        >
+          {showSolution ? 'Hide sample solution' : 'Show sample solution'}
+        </button>
+      </div>
+      {showSolution ? (
+        <div className="border-l-2 border-info pl-2 mt-2">
+          {ContentHandler.render(
+            manager,
+            manager.state.getEntry(value.solution),
+          )}
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -1,9 +1,35 @@
-import { createPrimitiveHandler } from './helper/primitive-nodes'
+import { Fragment, type ReactNode } from 'react'
+import { renderMath } from '../math'
+import {
+  isSafeUrl,
+  richTextToHtml,
+  sliceRichText,
+  toRichText,
+  toSpans,
+} from '../rich-text'
+import type { Cursor } from '../selection'
+import type { Key, StateManager, WritableState } from '../state'
+import { BlankInput, getBlankId, isInClozeText } from './blank'
+import type { TextSpan } from './types/node-description'
 import type { NodeHandler } from './types/node-handler'
 
 export const TextHandler: NodeHandler<'text'> = {
-  ...createPrimitiveHandler({ type: 'text', emptyValue: '' }),
-  render(_, { key, value }) {
+  insert(state, parent, value) {
+    const entry = state.insert({ type: 'text', parent, createValue: () => '' })
+
+    appendSpans(state, entry.key, 0, toSpans(value))
+
+    return state.getEntry(entry.key)
+  },
+  createEmpty(state, parent) {
+    return state.insert({ type: 'text', parent, createValue: () => '' })
+  },
+  read(state, key) {
+    return toRichText(state.getTextSpans(key))
+  },
+  render(manager, { key }) {
+    let offset = 0
+
     return (
       <span
         id={key}
@@ -11,10 +37,52 @@ export const TextHandler: NodeHandler<'text'> = {
         data-key={key}
         className="text whitespace-pre-wrap"
       >
-        {value}
+        {manager.state.getTextSpans(key).map((span) => {
+          const spanOffset = offset
+          offset += span.text.length
+
+          if (span.marks?.math) {
+            return renderInlineFormula(manager, key, span.text, spanOffset)
+          }
+
+          // Learners fill in blanks instead of reading their answers
+          if (
+            manager.mode === 'preview' &&
+            span.marks?.blank != null &&
+            isInClozeText(manager.state, key)
+          ) {
+            return (
+              <BlankInput
+                key={spanOffset}
+                id={getBlankId(key, spanOffset)}
+                size={span.text.length}
+              >
+                {renderSpan(span)}
+              </BlankInput>
+            )
+          }
+
+          return <Fragment key={spanOffset}>{renderSpan(span)}</Fragment>
+        })}
       </span>
     )
   },
+  renderHtml(state, { key }) {
+    const hasBlankInputs = isInClozeText(state, key)
+
+    return state
+      .getTextSpans(key)
+      .map((span) =>
+        // Blanks of cloze exercises are filled in by learners
+        hasBlankInputs && span.marks?.blank != null
+          ? `<input type="text" class="blank" aria-label="Blank" size="${Math.max(span.text.length, 4)}">`
+          : richTextToHtml([span]),
+      )
+      .join('')
+  },
+  getIndexWithin() {
+    throw new Error('Text nodes cannot have children')
+  },
   selectStart(state, { key }) {
     state.setCaret({ key, index: 0 })
   },
@@ -24,33 +92,27 @@ export const TextHandler: NodeHandler<'text'> = {
   select(state, { key, value }, [index]) {
     state.setCaret({ key, index: index ?? value.length })
   },
-  merge(state, { key }, { value }) {
-    state.update(key, (prev) => prev + value)
+  merge(state, { key, value }, { key: secondKey }) {
+    appendSpans(state, key, value.length, state.getTextSpans(secondKey))
     return true
   },
   split(state, { parent, key, value }, [index], newParentKey) {
     if (index == null || index >= value.length) return null
 
-    const leftPart = value.slice(0, index)
-    const rightPart = value.slice(index)
+    const rightPart = sliceRichText(toRichText(state.getTextSpans(key)), index)
+
+    state.deleteText(key, index, value.length - index)
 
     return [
-      state.update(key, leftPart),
-      state.insert({
-        type: 'text',
-        parent: newParentKey ?? parent,
-        createValue: () => rightPart,
-      }),
+      state.getEntry(key),
+      TextHandler.insert(state, newParentKey ?? parent, rightPart),
     ]
   },
   onCommand: {
     insertText(state, { key }, [index], [endIndex], text) {
       if (index == null || index !== endIndex) return null
 
-      state.update(
-        key,
-        (prev) => prev.slice(0, index) + text + prev.slice(index),
-      )
+      state.insertText(key, index, text, state.storedMarks ?? undefined)
       state.setCaret({ key, index: index + text.length })
 
       return { success: true }
@@ -61,7 +123,7 @@ export const TextHandler: NodeHandler<'text'> = {
 
       if (start === end) return null
 
-      state.update(key, (prev) => prev.slice(0, start) + prev.slice(end))
+      state.deleteText(key, start, end - start)
       state.setCaret({ key, index: start })
 
       return { success: true }
@@ -70,7 +132,7 @@ export const TextHandler: NodeHandler<'text'> = {
       if (index == null || index !== endIndex) return null
       if (index >= value.length) return null
 
-      state.update(key, (prev) => prev.slice(0, index) + prev.slice(index + 1))
+      state.deleteText(key, index, 1)
       state.setCaret({ key: key, index })
 
       return { success: true }
@@ -79,10 +141,117 @@ export const TextHandler: NodeHandler<'text'> = {
       if (index == null || index !== endIndex) return null
       if (index <= 0) return null
 
-      state.update(key, (prev) => prev.slice(0, index - 1) + prev.slice(index))
+      state.deleteText(key, index - 1, 1)
       state.setCaret({ key, index: index - 1 })
 
       return { success: true }
     },
   },
 }
+
+/**
+ * Inline formulas are typeset, unless the caret is within (or next to) their
+ * LaTeX source, which is then shown for editing.
+ */
+function renderInlineFormula(
+  manager: StateManager<'root'>,
+  key: Key<'text'>,
+  latex: string,
+  offset: number,
+) {
+  const end = offset + latex.length
+
+  if (
+    manager.mode === 'edit' &&
+    isCursorWithin(manager.state.cursor, key, offset, end)
+  ) {
+    return (
+      <code key={offset} className="math-source">
+        {latex}
+      </code>
+    )
+  }
+
+  return (
+    <button
+      key={offset}
+      type="button"
+      className="cursor-text"
+      contentEditable={false}
+      data-atom-length={latex.length}
+      title={manager.mode === 'edit' ? 'Edit formula' : undefined}
+      onClick={() => {
+        if (manager.mode === 'edit') {
+          manager.update((state) => state.setCaret({ key, index: end }))
+        }
+      }}
+      // biome-ignore lint/security/noDangerouslySetInnerHtml: Generated by KaTeX which escapes the LaTeX source
+      dangerouslySetInnerHTML={{ __html: renderMath(latex) }}
+    />
+  )
+}
+
+function isCursorWithin(
+  cursor: Cursor | null,
+  key: Key<'text'>,
+  start: number,
+  end: number,
+): boolean {
+  return [cursor?.start, cursor?.end].some(
+    (point) =>
+      point?.key === key &&
+      point.index != null &&
+      point.index >= start &&
+      point.index <= end,
+  )
+}
+
+function renderSpan({ text, marks }: TextSpan): ReactNode {
+  let node: ReactNode = text
+
+  if (marks?.code) node = <code>{node}</code>
+  if (marks?.underline) node = <u>{node}</u>
+  if (marks?.italic) node = <em>{node}</em>
+  if (marks?.bold) node = <strong>{node}</strong>
+  if (marks?.link) {
+    const { href } = marks.link
+
+    node = <a href={isSafeUrl(href) ? href : undefined}>{node}</a>
+  }
+  if (marks?.blank) {
+    const { alternatives } = marks.blank
+
+    node = (
+      <mark
+        className="rounded bg-info/30 border-b-2 border-dashed border-info"
+        title={
+          alternatives.length > 0
+            ? `Also accepted: ${alternatives.join(', ')}`
+            : undefined
+        }
+      >
+        {node}
+      </mark>
+    )
+  }
+
+  return node
+}
+
+/**
+ * Inserts the spans at the given index while keeping their marks (instead of
+ * taking over the marks of the surrounding text).
+ */
+function appendSpans(
+  state: WritableState,
+  key: Key<'text'>,
+  index: number,
+  spans: TextSpan[],
+) {
+  let offset = index
+
+  for (const { text, marks } of spans) {
+    state.insertText(key, offset, text, marks ?? {})
+    offset += text.length
+  }
+}
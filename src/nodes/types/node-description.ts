@@ -10,23 +10,111 @@ export type JSONValue<T extends NodeType = NodeType> =
 export interface NodeDescription {
   multipleChoice: ObjectNode<
     'multipleChoice',
-    { task: 'content'; answers: 'multipleChoiceAnswers' }
+    {
+      mode: 'multipleChoiceMode'
+      task: 'content'
+      answers: 'multipleChoiceAnswers'
+    },
+    'mode'
+  >
+  multipleChoiceMode: PrimitiveNode<MultipleChoiceMode>
+  cloze: ObjectNode<'cloze', { task: 'content'; text: 'content' }>
+  textInput: ObjectNode<'textInput', { task: 'content'; solution: 'content' }>
+  ordering: ObjectNode<'ordering', { task: 'content'; items: 'orderingItems' }>
+  orderingItems: ArrayNode<'orderingItem'>
+  orderingItem: WrappedNode<'orderingItem', 'text'>
+  matching: ObjectNode<'matching', { task: 'content'; pairs: 'matchingPairs' }>
+  matchingPairs: ArrayNode<'matchingPair'>
+  matchingPair: ObjectNode<
+    'matchingPair',
+    { term: 'content'; match: 'content' }
+  >
+  image: ObjectNode<
+    'image',
+    {
+      src: 'string'
+      alt: 'string'
+      caption: 'content'
+      license: 'string'
+      author: 'string'
+      sourceUrl: 'string'
+    },
+    'caption' | 'license' | 'author' | 'sourceUrl'
+  >
+  content: ArrayNode<'paragraph' | ListType>
+  root: ArrayNode<
+    | 'paragraph'
+    | 'heading'
+    | ListType
+    | ExerciseType
+    | 'image'
+    | 'formula'
+    | 'codeBlock'
   >
-  content: ArrayNode<'paragraph'>
-  root: ArrayNode<'paragraph' | 'multipleChoice'>
   paragraph: WrappedNode<'paragraph', 'text'>
-  text: PrimitiveNode<string>
+  formula: WrappedNode<'formula', 'text'>
+  codeBlock: ObjectNode<'codeBlock', { language: 'codeLanguage'; code: 'text' }>
+  codeLanguage: PrimitiveNode<CodeLanguage>
+  heading: ObjectNode<'heading', { level: 'headingLevel'; value: 'text' }>
+  headingLevel: PrimitiveNode<HeadingLevel>
+  bulletList: ObjectNode<'bulletList', { items: 'listItems' }>
+  orderedList: ObjectNode<'orderedList', { items: 'listItems' }>
+  listItems: ArrayNode<'listItem'>
+  listItem: WrappedNode<'listItem', 'content'>
+  text: RichTextNode
   multipleChoiceAnswers: ArrayNode<'multipleChoiceAnswer'>
   multipleChoiceAnswer: ObjectNode<
     'multipleChoiceAnswer',
-    { answer: 'text'; isCorrect: 'boolean' }
+    { answer: 'text'; isCorrect: 'boolean'; feedback: 'content' },
+    'feedback'
   >
   boolean: PrimitiveNode<boolean>
+  string: PrimitiveNode<string>
 }
 
-interface ObjectNode<T extends NodeType, O extends Record<string, NodeType>> {
+export type HeadingLevel = 1 | 2 | 3
+export type ListType = 'bulletList' | 'orderedList'
+export type CodeLanguage =
+  | 'plaintext'
+  | 'bash'
+  | 'c'
+  | 'cpp'
+  | 'csharp'
+  | 'css'
+  | 'html'
+  | 'java'
+  | 'javascript'
+  | 'json'
+  | 'python'
+  | 'sql'
+  | 'typescript'
+export type ExerciseType =
+  | 'multipleChoice'
+  | 'cloze'
+  | 'textInput'
+  | 'ordering'
+  | 'matching'
+/**
+ * In `single` mode learners pick one answer (like radio buttons) and exactly
+ * one answer is correct. In `multiple` mode any number of answers can be
+ * picked and correct.
+ */
+export type MultipleChoiceMode = 'single' | 'multiple'
+
+/**
+ * Node with a fixed set of children. Children listed in `OptionalKeys` may be
+ * omitted in the JSON value, but the entry always contains them (an empty
+ * child is created when the node is inserted).
+ */
+interface ObjectNode<
+  T extends NodeType,
+  O extends Record<string, NodeType>,
+  OptionalKeys extends keyof O = never,
+> {
   entryValue: { [K in keyof O]: Key<O[K]> }
-  jsonValue: { [K in keyof O]: JSONValue<O[K]> } & { type: T }
+  jsonValue: { [K in Exclude<keyof O, OptionalKeys>]: JSONValue<O[K]> } & {
+    [K in OptionalKeys]?: JSONValue<O[K]>
+  } & { type: T }
   index: keyof O
 }
 
@@ -42,6 +130,40 @@ interface WrappedNode<T extends NodeType, C extends NodeType> {
   index: never
 }
 
+/**
+ * Text with inline marks. The entry value is the plain text (so that indices
+ * are character offsets), while the marks are stored as formatting
+ * attributes of the underlying `Y.Text`. Text without any marks is
+ * represented as a plain string in the JSON value.
+ */
+interface RichTextNode {
+  entryValue: string
+  jsonValue: string | TextSpan[]
+  index: never
+}
+
+export interface TextSpan {
+  text: string
+  marks?: Marks
+}
+
+export interface Marks {
+  bold?: true
+  italic?: true
+  underline?: true
+  code?: true
+  link?: { href: string }
+  /**
+   * Gap of a cloze exercise. The marked text is the expected answer, while
+   * `alternatives` lists further accepted answers.
+   */
+  blank?: { alternatives: string[] }
+  /**
+   * Inline formula. The marked text is its LaTeX source.
+   */
+  math?: true
+}
+
 interface PrimitiveNode<C extends boolean | number | string> {
   entryValue: C
   jsonValue: C
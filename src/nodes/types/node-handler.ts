@@ -20,6 +20,12 @@ export interface NodeHandlerOf<T extends NodeType> {
 
   read(state: ReadonlyState, key: Key<T>): JSONValue<T>
   render(manager: StateManager<'root'>, node: Entry<T>): ReactNode
+  /**
+   * Renders the node as HTML for learners outside of the editor. Unlike
+   * `render()` the HTML contains no editor markup and exercises contain their
+   * solutions only in encoded form (see `renderExerciseHtml()`).
+   */
+  renderHtml(state: ReadonlyState, node: Entry<T>): string
   getIndexWithin(entry: Entry<T>, child: Key): Index<T>
 
   select(state: WritableState, node: Entry<T>, at: IndexPath<T>): void
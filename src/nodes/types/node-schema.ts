@@ -0,0 +1,68 @@
+import type { EntryValue, Key } from '../../state'
+import type { JSONValue } from './node-description'
+import type { NodeType } from './node-types'
+
+/**
+ * Description of a node type at runtime (see `nodeSchemas`). The kind and the
+ * children are derived from `NodeDescription`, so that the schema of a node
+ * type cannot get out of sync with its description.
+ */
+export type NodeSchema<T extends NodeType> = T extends 'text'
+  ? TextSchema
+  : EntryValue<T> extends Key[]
+    ? ArraySchema<ChildType<EntryValue<T>[number]>>
+    : EntryValue<T> extends Key
+      ? WrappedSchema<ChildType<EntryValue<T>>>
+      : EntryValue<T> extends Record<string, Key>
+        ? ObjectSchema<
+            { [K in keyof EntryValue<T>]: ChildType<EntryValue<T>[K]> },
+            OptionalKeys<JSONValue<T>>
+          >
+        : PrimitiveSchema<EntryValue<T>>
+
+interface TextSchema {
+  kind: 'text'
+}
+
+interface ArraySchema<C extends NodeType> {
+  kind: 'array'
+  /**
+   * All types which can be children of the node.
+   */
+  childTypes: { [S in C]: true }
+}
+
+interface WrappedSchema<C extends NodeType> {
+  kind: 'wrapped'
+  childType: C
+}
+
+interface ObjectSchema<
+  O extends Record<string, NodeType>,
+  OptionalKey extends PropertyKey,
+> {
+  kind: 'object'
+  children: O
+  /**
+   * Children which may be omitted in the JSON value.
+   */
+  optional: { [K in OptionalKey]: true }
+}
+
+interface PrimitiveSchema<V> {
+  kind: 'primitive'
+  isValid: (value: unknown) => value is V
+  /**
+   * Description of the valid values for error messages.
+   */
+  expected: string
+}
+
+type ChildType<K> = K extends `${string}:${infer C extends NodeType}`
+  ? C
+  : never
+
+type OptionalKeys<T> = {
+  // biome-ignore lint/complexity/noBannedTypes: Checks whether the property is optional
+  [K in keyof T]-?: {} extends Pick<T, K> ? K : never
+}[keyof T]
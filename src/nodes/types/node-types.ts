@@ -5,12 +5,33 @@ export type NodeType = (typeof nodeTypes)[number]
 const nodeTypes = [
   'content',
   'paragraph',
+  'formula',
+  'codeBlock',
+  'codeLanguage',
+  'heading',
+  'headingLevel',
+  'bulletList',
+  'orderedList',
+  'listItems',
+  'listItem',
+
   'text',
   'multipleChoice',
+  'multipleChoiceMode',
+  'cloze',
+  'textInput',
+  'ordering',
+  'orderingItems',
+  'orderingItem',
+  'matching',
+  'matchingPairs',
+  'matchingPair',
   'root',
   'multipleChoiceAnswers',
   'multipleChoiceAnswer',
   'boolean',
+  'image',
+  'string',
 ] as const
 
 /**
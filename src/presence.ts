@@ -0,0 +1,58 @@
+import { sample } from 'es-toolkit'
+import type { Cursor } from './selection'
+
+/**
+ * Information about a user which is shared with all other peers.
+ */
+export interface User {
+  name: string
+  color: string
+}
+
+/**
+ * Another client which is connected to the same document.
+ */
+export interface Peer {
+  clientId: number
+  user: User
+  cursor: Cursor | null
+}
+
+const colors = [
+  '#e11d48',
+  '#ea580c',
+  '#ca8a04',
+  '#16a34a',
+  '#0891b2',
+  '#2563eb',
+  '#7c3aed',
+  '#c026d3',
+]
+
+const animals = [
+  'Badger',
+  'Beaver',
+  'Fox',
+  'Hedgehog',
+  'Lynx',
+  'Otter',
+  'Owl',
+  'Raven',
+  'Squirrel',
+  'Wolf',
+]
+
+export function createRandomUser(): User {
+  return { name: `Anonymous ${sample(animals)}`, color: sample(colors) }
+}
+
+export function isUser(value: unknown): value is User {
+  return (
+    typeof value === 'object' &&
+    value != null &&
+    'name' in value &&
+    typeof value.name === 'string' &&
+    'color' in value &&
+    typeof value.color === 'string'
+  )
+}
@@ -0,0 +1,637 @@
+import { escape as escapeHtml } from 'es-toolkit'
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import { toHtml } from './clipboard'
+import type { ConversionResult } from './markdown'
+import type { JSONValue, Marks, TextSpan } from './nodes/types/node-description'
+import { getPlainText, richTextToHtml, toRichText } from './rich-text'
+
+type ContentElement = JSONValue<'content'>[number]
+
+export type QtiVersion = '2.1' | '3.0'
+
+/**
+ * Converts the multiple choice exercises of the content into an IMS QTI
+ * content package (a ZIP file with one item per exercise). QTI 2.1 and 3.0
+ * only differ in the names of elements and attributes, so both versions are
+ * written by the same code.
+ */
+export function toQti(
+  content: JSONValue<'root'>,
+  version: QtiVersion,
+): ConversionResult<Uint8Array<ArrayBuffer>> {
+  const warnings: string[] = []
+  const quizzes = content.filter(
+    (element): element is JSONValue<'multipleChoice'> =>
+      element.type === 'multipleChoice',
+  )
+  const otherCount = content.length - quizzes.length
+
+  if (quizzes.length === 0) {
+    warnings.push('The document contains no multiple choice exercises.')
+  }
+  if (otherCount > 0) {
+    warnings.push(
+      `Only multiple choice exercises can be exported to QTI, ${otherCount} other element(s) were left out.`,
+    )
+  }
+
+  const files: Record<string, Uint8Array> = {}
+  const resources = quizzes.map((quiz, index) => {
+    const identifier = `item-${index + 1}`
+    const href = `items/${identifier}.xml`
+
+    files[href] = strToU8(toAssessmentItem(quiz, identifier, version))
+
+    return `<resource identifier="${identifier}" type="${qtiFormats[version].resourceType}" href="${href}"><file href="${href}"/></resource>`
+  })
+
+  files['imsmanifest.xml'] = strToU8(
+    `${xmlDeclaration}<manifest xmlns="${qtiFormats[version].manifestNamespace}" identifier="manifest"><metadata><schema>QTI Package</schema><schemaversion>${qtiFormats[version].schemaVersion}</schemaversion></metadata><organizations/><resources>${resources.join('')}</resources></manifest>`,
+  )
+
+  // fflate always creates archives in an `ArrayBuffer`
+  return { value: zipSync(files) as Uint8Array<ArrayBuffer>, warnings }
+}
+
+/**
+ * Converts QTI items into multiple choice exercises. `data` is either a
+ * single item (XML) or a content package (ZIP) of QTI 2.1 or 3.0. Items
+ * without a choice interaction are left out.
+ */
+export function fromQti(data: Uint8Array): ConversionResult<JSONValue<'root'>> {
+  const warnings: string[] = []
+  const documents = isZip(data)
+    ? readPackage(unzipSync(data), warnings)
+    : [{ name: 'The file', xml: strFromU8(data) }]
+  const content = documents.flatMap(({ name, xml }) => {
+    const document = new DOMParser().parseFromString(xml, 'application/xml')
+
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      warnings.push(`${name}: The XML is invalid and was left out.`)
+      return []
+    }
+
+    const root = document.documentElement
+    const items =
+      getQtiName(root) === 'assessmentItem'
+        ? [root]
+        : getElements(root, 'assessmentItem')
+
+    return items.flatMap((item) => {
+      const title = item.getAttribute('title') ?? name
+      const quiz = toMultipleChoice(item, `${title}: `, warnings)
+
+      return quiz != null ? [quiz] : []
+    })
+  })
+
+  if (content.length === 0 && warnings.length === 0) {
+    warnings.push('The file contains no QTI items.')
+  }
+
+  return { value: content, warnings }
+}
+
+const xmlDeclaration = '<?xml version="1.0" encoding="UTF-8"?>\n'
+
+const qtiFormats = {
+  '2.1': {
+    itemNamespace: 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+    manifestNamespace: 'http://www.imsglobal.org/xsd/imscp_v1p1',
+    resourceType: 'imsqti_item_xmlv2p1',
+    schemaVersion: '2.1',
+  },
+  '3.0': {
+    itemNamespace: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+    manifestNamespace: 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1',
+    resourceType: 'imsqti_item_xmlv3p0',
+    schemaVersion: '3.0.0',
+  },
+}
+
+function toAssessmentItem(
+  { mode, task, answers }: JSONValue<'multipleChoice'>,
+  identifier: string,
+  version: QtiVersion,
+): string {
+  const tag = (
+    name: string,
+    attributes: Record<string, string>,
+    children = '',
+  ) => createQtiElement(version, name, attributes, children)
+  const cardinality = mode === 'single' ? 'single' : 'multiple'
+  const choiceIds = answers.map((_, index) => `choice-${index + 1}`)
+  const correctValues = answers
+    .flatMap(({ isCorrect }, index) =>
+      isCorrect ? [tag('value', {}, choiceIds[index])] : [],
+    )
+    .join('')
+  const choices = answers
+    .map(({ answer, feedback }, index) => {
+      const feedbackBlock =
+        feedback != null
+          ? tag(
+              'feedbackBlock',
+              {
+                outcomeIdentifier: 'FEEDBACK',
+                identifier: choiceIds[index],
+                showHide: 'show',
+              },
+              toXhtml(feedback),
+            )
+          : ''
+
+      return tag(
+        'simpleChoice',
+        { identifier: choiceIds[index] },
+        textToXhtml(answer) + feedbackBlock,
+      )
+    })
+    .join('')
+  const setScore = (score: string) =>
+    tag(
+      'setOutcomeValue',
+      { identifier: 'SCORE' },
+      tag('baseValue', { baseType: 'float' }, score),
+    )
+
+  return (
+    xmlDeclaration +
+    tag(
+      'assessmentItem',
+      {
+        xmlns: qtiFormats[version].itemNamespace,
+        identifier,
+        title: getTitle(task, identifier),
+        adaptive: 'false',
+        timeDependent: 'false',
+      },
+      [
+        tag(
+          'responseDeclaration',
+          { identifier: 'RESPONSE', cardinality, baseType: 'identifier' },
+          tag('correctResponse', {}, correctValues),
+        ),
+        tag(
+          'outcomeDeclaration',
+          { identifier: 'SCORE', cardinality: 'single', baseType: 'float' },
+          tag('defaultValue', {}, tag('value', {}, '0')),
+        ),
+        tag('outcomeDeclaration', {
+          identifier: 'FEEDBACK',
+          cardinality,
+          baseType: 'identifier',
+        }),
+        tag(
+          'itemBody',
+          {},
+          toXhtml(task) +
+            tag(
+              'choiceInteraction',
+              {
+                responseIdentifier: 'RESPONSE',
+                shuffle: 'false',
+                maxChoices: mode === 'single' ? '1' : '0',
+              },
+              choices,
+            ),
+        ),
+        // The picked answers are the identifiers of their feedback
+        tag(
+          'responseProcessing',
+          {},
+          tag(
+            'responseCondition',
+            {},
+            tag(
+              'responseIf',
+              {},
+              tag(
+                'match',
+                {},
+                tag('variable', { identifier: 'RESPONSE' }) +
+                  tag('correct', { identifier: 'RESPONSE' }),
+              ) + setScore('1'),
+            ) + tag('responseElse', {}, setScore('0')),
+          ) +
+            tag(
+              'setOutcomeValue',
+              { identifier: 'FEEDBACK' },
+              tag('variable', { identifier: 'RESPONSE' }),
+            ),
+        ),
+      ].join(''),
+    )
+  )
+}
+
+/**
+ * Writes an element of QTI. The names are given like in QTI 2.1; QTI 3.0
+ * uses the prefix `qti-` and kebab case instead (`qti-simple-choice`).
+ */
+function createQtiElement(
+  version: QtiVersion,
+  name: string,
+  attributes: Record<string, string>,
+  children: string,
+): string {
+  const tagName = version === '2.1' ? name : `qti-${toKebabCase(name)}`
+  const attributesXml = Object.entries(attributes)
+    .map(
+      ([attribute, value]) =>
+        ` ${version === '2.1' ? attribute : toKebabCase(attribute)}="${escapeHtml(value)}"`,
+    )
+    .join('')
+
+  return children !== ''
+    ? `<${tagName}${attributesXml}>${children}</${tagName}>`
+    : `<${tagName}${attributesXml}/>`
+}
+
+function toKebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+}
+
+/**
+ * QTI contains XHTML, so line breaks must be closed elements.
+ */
+function toXhtml(content: ContentElement[]): string {
+  return content.map(toHtml).join('').replace(/\n/g, '<br/>')
+}
+
+function textToXhtml(text: JSONValue<'text'>): string {
+  return richTextToHtml(text).replace(/\n/g, '<br/>')
+}
+
+function getTitle(task: ContentElement[], fallback: string): string {
+  const firstParagraph = task.find((element) => element.type === 'paragraph')
+  const text =
+    firstParagraph != null ? getPlainText(firstParagraph.value).trim() : ''
+
+  if (text === '') return fallback
+
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text
+}
+
+function isZip(data: Uint8Array): boolean {
+  // Local file headers of ZIP files start with "PK\x03\x04"
+  return data[0] === 0x50 && data[1] === 0x4b
+}
+
+/**
+ * Returns the items of a content package in the order of its manifest. Items
+ * which are not listed in a manifest are read in the order of the archive.
+ */
+function readPackage(
+  files: Record<string, Uint8Array>,
+  warnings: string[],
+): { name: string; xml: string }[] {
+  const manifest = files['imsmanifest.xml']
+  const hrefs =
+    manifest != null
+      ? getElements(
+          new DOMParser().parseFromString(
+            strFromU8(manifest),
+            'application/xml',
+          ).documentElement,
+          'resource',
+        )
+          .filter((resource) =>
+            resource.getAttribute('type')?.startsWith('imsqti_item'),
+          )
+          .map((resource) => resource.getAttribute('href') ?? '')
+      : Object.keys(files).filter((name) => name.endsWith('.xml'))
+
+  return hrefs.flatMap((href) => {
+    const file = files[href]
+
+    if (file == null) {
+      warnings.push(`${href}: The item is missing in the package.`)
+      return []
+    }
+
+    return [{ name: href, xml: strFromU8(file) }]
+  })
+}
+
+function toMultipleChoice(
+  item: Element,
+  prefix: string,
+  warnings: string[],
+): JSONValue<'multipleChoice'> | null {
+  const itemBody = getElements(item, 'itemBody')[0]
+  const interaction =
+    itemBody != null ? getElements(itemBody, 'choiceInteraction')[0] : null
+
+  if (itemBody == null || interaction == null) {
+    warnings.push(
+      `${prefix}Only choice interactions can be imported, the item was left out.`,
+    )
+    return null
+  }
+  const responseId = getQtiAttribute(interaction, 'responseIdentifier')
+  const declaration = getElements(item, 'responseDeclaration').find(
+    (element) => element.getAttribute('identifier') === responseId,
+  )
+  const correctIds = getCorrectIds(declaration)
+  const choices = getElements(interaction, 'simpleChoice')
+
+  if (choices.length < 2) {
+    warnings.push(
+      `${prefix}Exercises need at least two answers, the item was left out.`,
+    )
+    return null
+  }
+
+  const answers = choices.map((choice) => {
+    const feedbackElements = Array.from(choice.children).filter((child) =>
+      ['feedbackBlock', 'feedbackInline'].includes(getQtiName(child)),
+    )
+    const feedback = toContent(
+      feedbackElements.flatMap((element) => Array.from(element.childNodes)),
+      prefix,
+      warnings,
+    )
+    const answerNodes = Array.from(choice.childNodes).filter(
+      (node) => !(node instanceof Element && feedbackElements.includes(node)),
+    )
+
+    return {
+      type: 'multipleChoiceAnswer' as const,
+      isCorrect: correctIds.includes(choice.getAttribute('identifier') ?? ''),
+      answer: toRichText(trimSpans(toTextSpans(answerNodes, prefix, warnings))),
+      ...(feedback.length > 0 ? { feedback } : {}),
+    }
+  })
+
+  if (!answers.some(({ isCorrect }) => isCorrect)) {
+    warnings.push(
+      `${prefix}The item has no correct answer, the first answer was marked as correct.`,
+    )
+    answers[0].isCorrect = true
+  }
+
+  const isSingleChoice =
+    declaration?.getAttribute('cardinality') === 'single' ||
+    getQtiAttribute(interaction, 'maxChoices') === '1'
+
+  if (
+    isSingleChoice &&
+    answers.filter(({ isCorrect }) => isCorrect).length > 1
+  ) {
+    warnings.push(
+      `${prefix}Single choice items can only have one correct answer, the item was imported with multiple answers.`,
+    )
+  }
+
+  // The prompt of the interaction is part of the task
+  const body = itemBody.cloneNode(true) as Element
+  const prompt = getElements(interaction, 'prompt')[0]
+
+  getElements(body, 'choiceInteraction')[0].replaceWith(
+    ...(prompt != null ? [prompt.cloneNode(true)] : []),
+  )
+
+  const task = toContent(Array.from(body.childNodes), prefix, warnings)
+
+  return {
+    type: 'multipleChoice',
+    mode:
+      isSingleChoice &&
+      answers.filter(({ isCorrect }) => isCorrect).length === 1
+        ? 'single'
+        : 'multiple',
+    task: task.length > 0 ? task : [{ type: 'paragraph', value: '' }],
+    answers,
+  }
+}
+
+/**
+ * Returns the identifiers of the correct choices: The correct response or,
+ * if there is none, the choices with a positive score in the mapping.
+ */
+function getCorrectIds(declaration: Element | undefined): string[] {
+  if (declaration == null) return []
+
+  const correctResponse = getElements(declaration, 'correctResponse')[0]
+
+  if (correctResponse != null) {
+    return getElements(correctResponse, 'value').map((value) =>
+      (value.textContent ?? '').trim(),
+    )
+  }
+
+  return getElements(declaration, 'mapEntry')
+    .filter((entry) => Number(getQtiAttribute(entry, 'mappedValue')) > 0)
+    .map((entry) => getQtiAttribute(entry, 'mapKey') ?? '')
+}
+
+/**
+ * Returns the descendants of `parent` with the given QTI name. The name is
+ * given like in QTI 2.1 and also matches the name in QTI 3.0.
+ */
+function getElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter(
+    (element) => getQtiName(element) === name,
+  )
+}
+
+/**
+ * Returns the name of an element like in QTI 2.1 (`qti-simple-choice` of
+ * QTI 3.0 is returned as `simpleChoice`).
+ */
+function getQtiName(element: Element): string {
+  const name = element.localName
+
+  if (!name.startsWith('qti-')) return name
+
+  return name
+    .slice('qti-'.length)
+    .replace(/-([a-z])/g, (_, char: string) => char.toUpperCase())
+}
+
+function getQtiAttribute(element: Element, name: string): string | null {
+  return element.getAttribute(name) ?? element.getAttribute(toKebabCase(name))
+}
+
+const listTags = ['ul', 'ol']
+const paragraphTags = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre']
+const containerTags = ['div', 'blockquote', 'section', 'article', 'prompt']
+const skippedNames = [
+  'feedbackBlock',
+  'feedbackInline',
+  'modalFeedback',
+  'rubricBlock',
+  'stylesheet',
+]
+
+/**
+ * Converts the XHTML of an item into paragraphs and lists. Inline content
+ * between blocks becomes a paragraph of its own.
+ */
+function toContent(
+  nodes: Node[],
+  prefix: string,
+  warnings: string[],
+): ContentElement[] {
+  const content: ContentElement[] = []
+  let inlineNodes: Node[] = []
+
+  const addParagraph = (paragraphNodes: Node[]) => {
+    const spans = trimSpans(toTextSpans(paragraphNodes, prefix, warnings))
+
+    if (spans.length > 0) {
+      content.push({ type: 'paragraph', value: toRichText(spans) })
+    }
+  }
+  const flush = () => {
+    addParagraph(inlineNodes)
+    inlineNodes = []
+  }
+
+  for (const node of nodes) {
+    if (!(node instanceof Element)) {
+      inlineNodes.push(node)
+      continue
+    }
+
+    const name = getQtiName(node)
+
+    if (skippedNames.includes(name)) continue
+
+    if (listTags.includes(name)) {
+      flush()
+      content.push({
+        type: name === 'ul' ? 'bulletList' : 'orderedList',
+        items: Array.from(node.children)
+          .filter((child) => getQtiName(child) === 'li')
+          .map((child) => {
+            const value = toContent(
+              Array.from(child.childNodes),
+              prefix,
+              warnings,
+            )
+
+            return {
+              type: 'listItem' as const,
+              value:
+                value.length > 0 ? value : [{ type: 'paragraph', value: '' }],
+            }
+          }),
+      })
+    } else if (paragraphTags.includes(name)) {
+      flush()
+      addParagraph(Array.from(node.childNodes))
+    } else if (containerTags.includes(name)) {
+      flush()
+      content.push(...toContent(Array.from(node.childNodes), prefix, warnings))
+    } else if (name === 'table') {
+      flush()
+      warnings.push(`${prefix}Tables are imported as one paragraph per row.`)
+      for (const row of getElements(node, 'tr')) {
+        addParagraph(
+          Array.from(row.children).flatMap((cell, index) => [
+            ...(index > 0 ? [node.ownerDocument.createTextNode(' | ')] : []),
+            ...Array.from(cell.childNodes),
+          ]),
+        )
+      }
+    } else if (name.endsWith('Interaction')) {
+      flush()
+      warnings.push(
+        `${prefix}Only choice interactions can be imported, a ${name} was left out.`,
+      )
+    } else {
+      inlineNodes.push(node)
+    }
+  }
+
+  flush()
+
+  return content
+}
+
+const inlineMarks: Record<string, Marks> = {
+  b: { bold: true },
+  strong: { bold: true },
+  i: { italic: true },
+  em: { italic: true },
+  u: { underline: true },
+  code: { code: true },
+  kbd: { code: true },
+  samp: { code: true },
+  tt: { code: true },
+}
+
+function toTextSpans(
+  nodes: Node[],
+  prefix: string,
+  warnings: string[],
+  marks: Marks = {},
+): TextSpan[] {
+  return nodes.flatMap((node): TextSpan[] => {
+    if (node instanceof Text) {
+      return [{ text: node.data.replace(/\s+/g, ' '), marks }]
+    }
+    if (!(node instanceof Element)) return []
+
+    const name = getQtiName(node)
+    const children = Array.from(node.childNodes)
+
+    if (skippedNames.includes(name)) return []
+    if (name === 'br') return [{ text: '\n', marks }]
+    if (name === 'math') {
+      const annotation = Array.from(
+        node.getElementsByTagName('annotation'),
+      ).find(
+        (element) => element.getAttribute('encoding') === 'application/x-tex',
+      )
+
+      if (annotation != null) {
+        return [{ text: annotation.textContent ?? '', marks: { math: true } }]
+      }
+
+      warnings.push(
+        `${prefix}Formulas without LaTeX source are imported as plain text.`,
+      )
+      return [{ text: node.textContent ?? '', marks }]
+    }
+    if (name === 'img' || name === 'object') {
+      warnings.push(`${prefix}Images in items were left out.`)
+      return []
+    }
+    if (name === 'a') {
+      const href = node.getAttribute('href')
+      const linkMarks = href != null ? { ...marks, link: { href } } : marks
+
+      return toTextSpans(children, prefix, warnings, linkMarks)
+    }
+
+    return toTextSpans(children, prefix, warnings, {
+      ...marks,
+      ...inlineMarks[name],
+    })
+  })
+}
+
+/**
+ * Removes the whitespace around a paragraph, which comes from the indentation
+ * of the XML.
+ */
+function trimSpans(spans: TextSpan[]): TextSpan[] {
+  const result = spans.filter(({ text }) => text !== '')
+  const first = result[0]
+  const last = result[result.length - 1]
+
+  if (first != null && !first.marks?.math) {
+    result[0] = { ...first, text: first.text.replace(/^ +/, '') }
+  }
+  if (last != null && !last.marks?.math) {
+    result[result.length - 1] = {
+      ...result[result.length - 1],
+      text: result[result.length - 1].text.replace(/ +$/, ''),
+    }
+  }
+
+  return result.filter(({ text }) => text !== '')
+}
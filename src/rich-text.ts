@@ -0,0 +1,136 @@
+import { escape as escapeHtml, isEqual } from 'es-toolkit'
+import { renderMath } from './math'
+import type { JSONValue, Marks, TextSpan } from './nodes/types/node-description'
+
+/**
+ * Marks which can be toggled on and off (links need an URL and blanks the
+ * accepted answers instead).
+ */
+export type MarkType = Exclude<keyof Marks, 'link' | 'blank'>
+
+/**
+ * Changes of marks, where `null` removes a mark.
+ */
+export type MarkChanges = { [M in keyof Marks]?: Marks[M] | null }
+
+export function toSpans(value: JSONValue<'text'>): TextSpan[] {
+  if (typeof value === 'string') return value === '' ? [] : [{ text: value }]
+
+  return value
+}
+
+/**
+ * Returns the shortest representation of the given spans: Adjacent spans
+ * with the same marks are joined and text without marks is returned as a
+ * plain string.
+ */
+export function toRichText(spans: TextSpan[]): JSONValue<'text'> {
+  const result: TextSpan[] = []
+
+  for (const { text, marks } of spans) {
+    if (text === '') continue
+
+    const last = result[result.length - 1]
+    const normalizedMarks =
+      marks != null && Object.keys(marks).length > 0 ? marks : undefined
+
+    if (last != null && isEqual(last.marks, normalizedMarks)) {
+      last.text += text
+    } else {
+      result.push(
+        normalizedMarks != null ? { text, marks: normalizedMarks } : { text },
+      )
+    }
+  }
+
+  if (result.every(({ marks }) => marks == null)) {
+    return result.map(({ text }) => text).join('')
+  }
+
+  return result
+}
+
+export function getPlainText(value: JSONValue<'text'>): string {
+  return typeof value === 'string'
+    ? value
+    : value.map(({ text }) => text).join('')
+}
+
+export function sliceRichText(
+  value: JSONValue<'text'>,
+  start = 0,
+  end = Number.POSITIVE_INFINITY,
+): JSONValue<'text'> {
+  const result: TextSpan[] = []
+  let offset = 0
+
+  for (const { text, marks } of toSpans(value)) {
+    const slice = text.slice(
+      Math.max(start - offset, 0),
+      Math.max(end - offset, 0),
+    )
+
+    if (slice !== '')
+      result.push(marks != null ? { text: slice, marks } : { text: slice })
+
+    offset += text.length
+  }
+
+  return toRichText(result)
+}
+
+/**
+ * Returns the marks which apply to text typed at the given index: the marks
+ * of the previous character or the marks of the first character at the
+ * beginning of the text.
+ */
+export function getMarksAt(spans: TextSpan[], index: number): Marks {
+  let offset = 0
+
+  for (const { text, marks } of spans) {
+    offset += text.length
+
+    if (index <= offset) return marks ?? {}
+  }
+
+  return {}
+}
+
+export function hasMark(value: JSONValue<'text'>, mark: MarkType): boolean {
+  return toSpans(value).every(({ marks }) => marks?.[mark] === true)
+}
+
+export function richTextToHtml(value: JSONValue<'text'>): string {
+  return toSpans(value)
+    .map(({ text, marks }) => {
+      let html = marks?.math
+        ? renderMath(text, { output: 'mathml' })
+        : escapeHtml(text)
+
+      if (marks?.blank) html = `<mark>${html}</mark>`
+      if (marks?.code) html = `<code>${html}</code>`
+      if (marks?.underline) html = `<u>${html}</u>`
+      if (marks?.italic) html = `<em>${html}</em>`
+      if (marks?.bold) html = `<strong>${html}</strong>`
+      // Links with other schemes (like `javascript:`) are left out
+      if (marks?.link && isSafeUrl(marks.link.href)) {
+        html = `<a href="${escapeHtml(marks.link.href)}">${html}</a>`
+      }
+
+      return html
+    })
+    .join('')
+}
+
+/**
+ * Returns whether the URL is relative or uses the `http`, `https` or `mailto`
+ * scheme, so that opening it cannot run code (like a `javascript:` URL).
+ */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters in the scheme
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(url.replace(/[\s\p{Cc}]/gu, ''))
+
+  return scheme == null || safeSchemes.includes(scheme[1].toLowerCase())
+}
+
+const safeSchemes = ['http', 'https', 'mailto']
@@ -25,20 +25,39 @@ export function getCursor(selection: Selection | null): Cursor | null {
   const range = selection.getRangeAt(0)
 
   const startPoint = getPoint(range.startContainer, range.startOffset)
-  const endPoint = getPoint(range.endContainer, range.endOffset)
+  const endPoint = range.collapsed
+    ? startPoint
+    : getPoint(range.endContainer, range.endOffset, 'end')
 
   if (startPoint == null || endPoint == null) return null
 
   return { start: startPoint, end: endPoint }
 }
 
+/**
+ * Returns the point of a position in the DOM. Positions inside of texts are
+ * mapped to an index in the text. A position directly before (at the `start`)
+ * or after (at the `end`) an element of a node refers to the whole node.
+ */
 export function getPoint(
   node: Node | null,
   offset: number | null,
+  side: 'start' | 'end' = 'start',
 ): Point | null {
   if (node == null) return null
 
-  const htmlNode = node instanceof HTMLElement ? node : node.parentElement
+  if (node instanceof HTMLElement && offset != null) {
+    const child = node.childNodes[side === 'start' ? offset : offset - 1]
+    const childKey = child instanceof HTMLElement ? child.dataset.key : null
+
+    if (isKey(childKey) && !isKeyType('text', childKey))
+      return { key: childKey }
+  }
+
+  // Inline marks are rendered as nested elements without a key
+  const htmlNode = (
+    node instanceof HTMLElement ? node : node.parentElement
+  )?.closest<HTMLElement>('[data-key]')
 
   if (htmlNode == null) return null
 
@@ -47,10 +66,162 @@ export function getPoint(
   if (!isKey(key)) return null
 
   return isKeyType('text', key) && offset != null
-    ? { key, index: offset }
+    ? { key, index: getTextOffset(htmlNode, node, offset) }
     : { key }
 }
 
+/**
+ * Returns the number of characters between the start of `element` and the
+ * given position inside of it.
+ */
+function getTextOffset(element: HTMLElement, node: Node, offset: number) {
+  const range = document.createRange()
+
+  range.setStart(element, 0)
+  range.setEnd(node, offset)
+
+  const fragment = range.cloneContents()
+
+  for (const atom of Array.from(
+    fragment.querySelectorAll<HTMLElement>(atomSelector),
+  )) {
+    atom.replaceWith(' '.repeat(getAtomLength(atom)))
+  }
+
+  return fragment.textContent.length
+}
+
+/**
+ * Atoms are parts of a text which are rendered differently from their
+ * characters (like typeset inline formulas). They store the number of
+ * characters they stand for in `data-atom-length`.
+ */
+const atomSelector = '[data-atom-length]'
+
+function getAtomLength(element: HTMLElement): number {
+  return Number(element.dataset.atomLength)
+}
+
 export function isCollapsed({ start, end }: Cursor): boolean {
   return isEqual(start, end)
 }
+
+/**
+ * Returns whether the cursor selects a whole node (like a multiple choice
+ * exercise) instead of a part of a text.
+ */
+export function isNodeSelection({ start, end }: Cursor): boolean {
+  return start.key === end.key && start.index == null && end.index == null
+}
+
+/**
+ * Returns the DOM range which corresponds to the given cursor. This is the
+ * inverse of `getCursor()`.
+ */
+export function getDomRange({ start, end }: Cursor): Range | null {
+  const startPosition = getDomPosition(start)
+  const endPosition = getDomPosition(end, 'end')
+
+  if (startPosition == null || endPosition == null) return null
+
+  const range = document.createRange()
+
+  range.setStart(startPosition.node, startPosition.offset)
+  range.setEnd(endPosition.node, endPosition.offset)
+
+  return range
+}
+
+/**
+ * Returns the position in the DOM which corresponds to the given point. Points
+ * without an index refer to a whole node, so that the position is directly
+ * before (at the `start`) or after (at the `end`) its element.
+ */
+export function getDomPosition(
+  { key, index }: Point,
+  side: 'start' | 'end' = 'start',
+): { node: Node; offset: number } | null {
+  const element = document.getElementById(key)
+
+  if (element == null) return null
+
+  if (index == null) {
+    const parent = element.parentNode
+
+    if (parent == null) return { node: element, offset: 0 }
+
+    const elementIndex = Array.from(parent.childNodes).indexOf(element)
+
+    return {
+      node: parent,
+      offset: side === 'start' ? elementIndex : elementIndex + 1,
+    }
+  }
+
+  // The text might be split into several text nodes by inline marks
+  const walker = document.createTreeWalker(
+    element,
+    NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT,
+    {
+      acceptNode: (node) =>
+        node.parentElement?.closest(atomSelector) != null
+          ? NodeFilter.FILTER_REJECT
+          : node instanceof HTMLElement && !node.matches(atomSelector)
+            ? NodeFilter.FILTER_SKIP
+            : NodeFilter.FILTER_ACCEPT,
+    },
+  )
+  let remaining = index
+  let lastPosition: { node: Node; offset: number } | null = null
+
+  for (let node = walker.nextNode(); node != null; node = walker.nextNode()) {
+    if (node instanceof HTMLElement && node.parentNode != null) {
+      // Positions within an atom are placed before or after it
+      const atomIndex = Array.from(node.parentNode.childNodes).indexOf(node)
+      const length = getAtomLength(node)
+
+      if (remaining === 0) return { node: node.parentNode, offset: atomIndex }
+
+      lastPosition = { node: node.parentNode, offset: atomIndex + 1 }
+
+      if (remaining <= length) return lastPosition
+
+      remaining -= length
+    } else {
+      const length = node.textContent?.length ?? 0
+
+      if (remaining <= length) return { node, offset: remaining }
+
+      remaining -= length
+      lastPosition = { node, offset: length }
+    }
+  }
+
+  return lastPosition ?? { node: element, offset: 0 }
+}
+
+/**
+ * Returns whether the point is in the first (for `up`) or last (for `down`)
+ * visual line of its element. Within the other lines of a wrapped text the
+ * browser can move the caret on its own.
+ */
+export function isInBoundaryLine(point: Point, direction: 'up' | 'down') {
+  const element = document.getElementById(point.key)
+  const position = getDomPosition(point)
+
+  if (element == null || position == null) return true
+
+  const range = document.createRange()
+
+  range.setStart(position.node, position.offset)
+  range.collapse(true)
+
+  const caret = range.getBoundingClientRect()
+  const lines = element.getClientRects()
+
+  if (lines.length <= 1 || caret.height === 0) return true
+
+  return direction === 'up'
+    ? caret.top < lines[0].bottom
+    : caret.bottom > lines[lines.length - 1].top
+}
@@ -0,0 +1,167 @@
+import { getHandler } from '../nodes/handler'
+import { TextHandler } from '../nodes/text'
+import type { Point } from '../selection'
+import { isKey, isKeyType, type Key } from './key'
+import type { ReadonlyState, WritableState } from './state'
+
+export type CursorMovement =
+  | 'left'
+  | 'right'
+  | 'wordLeft'
+  | 'wordRight'
+  | 'up'
+  | 'down'
+  | 'lineStart'
+  | 'lineEnd'
+  | 'documentStart'
+  | 'documentEnd'
+
+export function isBackwardMovement(movement: CursorMovement): boolean {
+  return ['left', 'wordLeft', 'up', 'lineStart', 'documentStart'].includes(
+    movement,
+  )
+}
+
+/**
+ * Places the caret at the point which is reached from `point` with the given
+ * movement. Only texts are caret positions, so that non-editable parts of the
+ * document (like the checkboxes of a multiple choice exercise) are skipped.
+ * Since texts are not split into visual lines in the model, `up` and `down`
+ * move to the previous or next text.
+ */
+export function moveCaret(
+  state: WritableState,
+  rootKey: Key,
+  point: Point,
+  movement: CursorMovement,
+) {
+  if (movement === 'documentStart' || movement === 'documentEnd') {
+    const root = state.getEntry(rootKey)
+    const handler = getHandler(root)
+
+    if (movement === 'documentStart') handler.selectStart(state, root)
+    else handler.selectEnd(state, root)
+
+    return
+  }
+
+  const textKeys = getTextKeys(state, rootKey)
+  const position = textKeys.indexOf(point.key as Key<'text'>)
+
+  if (position < 0) {
+    // The caret is outside of a text, so we start at the next text
+    const [firstTextKey] = getTextKeys(state, point.key)
+
+    if (firstTextKey != null) {
+      TextHandler.selectStart(state, state.getEntry(firstTextKey))
+    }
+
+    return
+  }
+
+  const text = state.getEntry(textKeys[position])
+  const index = point.index ?? 0
+  const previous = position > 0 ? state.getEntry(textKeys[position - 1]) : null
+  const next =
+    position < textKeys.length - 1
+      ? state.getEntry(textKeys[position + 1])
+      : null
+
+  switch (movement) {
+    case 'left':
+    case 'wordLeft':
+      if (index > 0) {
+        const distance =
+          movement === 'left' ? 1 : getWordLengthBefore(text.value, index)
+
+        TextHandler.select(state, text, [index - distance])
+      } else if (previous != null) {
+        TextHandler.selectEnd(state, previous)
+      }
+      break
+    case 'right':
+    case 'wordRight':
+      if (index < text.value.length) {
+        const distance =
+          movement === 'right' ? 1 : getWordLengthAfter(text.value, index)
+
+        TextHandler.select(state, text, [index + distance])
+      } else if (next != null) {
+        TextHandler.selectStart(state, next)
+      }
+      break
+    case 'up':
+      if (previous != null) {
+        TextHandler.select(state, previous, [
+          Math.min(index, previous.value.length),
+        ])
+      } else {
+        TextHandler.selectStart(state, text)
+      }
+      break
+    case 'down':
+      if (next != null) {
+        TextHandler.select(state, next, [Math.min(index, next.value.length)])
+      } else {
+        TextHandler.selectEnd(state, text)
+      }
+      break
+    case 'lineStart':
+      TextHandler.selectStart(state, text)
+      break
+    case 'lineEnd':
+      TextHandler.selectEnd(state, text)
+      break
+  }
+}
+
+/**
+ * Compares two points by their position in the document. Returns a negative
+ * number when `a` is before `b`, zero when both are equal and a positive
+ * number otherwise.
+ */
+export function comparePoints(
+  state: ReadonlyState,
+  rootKey: Key,
+  a: Point,
+  b: Point,
+): number {
+  const textKeys: Key[] = getTextKeys(state, rootKey)
+
+  return (
+    textKeys.indexOf(a.key) - textKeys.indexOf(b.key) ||
+    (a.index ?? 0) - (b.index ?? 0)
+  )
+}
+
+/**
+ * Returns the keys of all `text` entries below `key` in document order.
+ */
+export function getTextKeys(state: ReadonlyState, key: Key): Key<'text'>[] {
+  if (isKeyType('text', key)) return [key]
+
+  const { value } = state.getEntry(key)
+  const children: unknown[] = isKey(value)
+    ? [value]
+    : Array.isArray(value)
+      ? value
+      : typeof value === 'object' && value != null
+        ? Object.values(value)
+        : []
+
+  return children.filter(isKey).flatMap((child) => getTextKeys(state, child))
+}
+
+// Like in most editors a word movement skips the whitespace and punctuation
+// next to the caret and then the word behind it
+function getWordLengthBefore(text: string, index: number): number {
+  const match = /[\p{L}\p{N}_]*[^\p{L}\p{N}_]*$/u.exec(text.slice(0, index))
+
+  return match?.[0].length ?? 0
+}
+
+function getWordLengthAfter(text: string, index: number): number {
+  const match = /^[^\p{L}\p{N}_]*[\p{L}\p{N}_]*/u.exec(text.slice(index))
+
+  return match?.[0].length ?? 0
+}
@@ -1,7 +1,17 @@
 import { isType, type NodeType } from '../nodes/types/node-types'
 
 export type ParentKey = Key | null
-export type Key<T extends NodeType = NodeType> = `${number}:${T}`
+export type Key<T extends NodeType = NodeType> = `${KeyId}:${T}`
+
+/**
+ * The id part of a key. It consists of the Yjs client id of the peer which
+ * created the entry and a clock counting the entries created by this peer, so
+ * that keys of different peers never collide. Only the root entry has the
+ * plain id `0`, since all peers need to agree on it.
+ */
+type KeyId = `${number}` | `${number}-${number}`
+
+export const rootKey: Key<'root'> = '0:root'
 
 export function isKeyType<T extends NodeType>(
   type: T,
@@ -17,7 +27,7 @@ export function isKey(value: unknown): value is Key {
 
   return (
     indexOfSeparator >= 0 &&
-    !Number.isNaN(Number.parseInt(value.slice(0, indexOfSeparator), 10)) &&
+    /^\d+(-\d+)?$/.test(value.slice(0, indexOfSeparator)) &&
     isType(value.slice(indexOfSeparator + 1))
   )
 }
@@ -1,22 +1,53 @@
-import { takeWhile, zip } from 'es-toolkit'
+import { isEqual, omit, takeWhile, zip } from 'es-toolkit'
 import { type ReactNode, useRef, useSyncExternalStore } from 'react'
+import * as Y from 'yjs'
+import { readClipboard, writeClipboard } from '../clipboard'
 import { Command, type CommandPayload } from '../command'
+import { setDocumentVersion, upgradeDocument } from '../document'
 import { getHandler } from '../nodes/handler'
-import type { JSONValue } from '../nodes/types/node-description'
+import { getInlineText } from '../nodes/helper'
+import { formatIssues, validateJson } from '../nodes/schema'
+import type {
+  HeadingLevel,
+  JSONValue,
+  ListType,
+} from '../nodes/types/node-description'
 import {
+  getMarksAt,
+  getPlainText,
+  hasMark,
+  type MarkType,
+  sliceRichText,
+  toSpans,
+} from '../rich-text'
+import {
+  type Cursor,
   type IndexPath,
   isCollapsed,
   type Path,
   type Point,
 } from '../selection'
-import type { Key } from './key'
+import type { SyncProvider } from '../sync'
+import {
+  type CursorMovement,
+  comparePoints,
+  getTextKeys,
+  isBackwardMovement,
+  moveCaret,
+} from './cursor-movement'
+import { isKeyType, type Key, rootKey } from './key'
 import { type ReadonlyState, WritableState } from './state'
 
 export function useStateManager<T extends 'root'>(
   type: T,
   initial: JSONValue<T>,
+  provider: SyncProvider,
 ) {
-  const manager = useRef(new StateManager(type, initial)).current
+  const managerRef = useRef<StateManager<T> | null>(null)
+  // The manager is created only once since it registers listeners at the
+  // shared document
+  managerRef.current ??= new StateManager(type, initial, provider)
+  const manager = managerRef.current
   const lastReturn = useRef({ manager, updateCount: manager.state.updateCount })
 
   return useSyncExternalStore(
@@ -39,19 +70,67 @@ export function useStateManager<T extends 'root'>(
   )
 }
 
+/**
+ * Authors edit the document in the `edit` mode. The `preview` mode shows the
+ * document like learners see it: the content is read-only and the exercises
+ * can be solved.
+ */
+export type EditorMode = 'edit' | 'preview'
+
 export class StateManager<T extends 'root'> {
-  private readonly _state = new WritableState()
+  private readonly _state: WritableState
   private readonly rootKey: Key<T>
   private updateCallDepth = 0
   private listener: (() => void)[] = []
   private updateFunc
   private lastUpdateCount
+  /**
+   * Undo history of the local user. Only changes made through `update()` of
+   * this manager are tracked, so that changes of collaborators are never
+   * reverted.
+   */
+  private readonly undoManager: Y.UndoManager
+  private cursorBeforeUpdate: Cursor | null = null
+  // The cursor does not store the direction of a selection, so the fixed end
+  // of a selection which is extended with the keyboard is remembered here
+  private selectionAnchor: Point | null = null
+  private _mode: EditorMode = 'edit'
+
+  constructor(type: T, initial: JSONValue<T>, provider: SyncProvider) {
+    this._state = new WritableState(provider)
+
+    if (this._state.entries.get(rootKey) == null) {
+      const issues = validateJson(type, initial)
+
+      if (issues.length > 0) {
+        throw new Error(`Invalid initial content:\n${formatIssues(issues)}`)
+      }
+
+      this._state.transact(() => {
+        getHandler(type).insert(this._state, null, initial)
+        setDocumentVersion(this._state.doc)
+      })
+    } else {
+      const issues = upgradeDocument(this._state)
+
+      if (issues.length > 0) {
+        console.error(
+          `Stored document cannot be migrated:\n${formatIssues(issues)}`,
+        )
+      }
+    }
 
-  constructor(type: T, initial: JSONValue<T>) {
-    this.rootKey =
-      this._state.entries.get('0:root') == null
-        ? getHandler(type).insert(this._state, null, initial).key
-        : ('0:root' as Key<T>)
+    this.rootKey = rootKey as Key<T>
+    this.undoManager = new Y.UndoManager(
+      [this._state.entries, this._state.texts],
+      { trackedOrigins: new Set([this._state]) },
+    )
+    this.undoManager.on('stack-item-added', ({ stackItem }) => {
+      stackItem.meta.set('cursor', this.cursorBeforeUpdate)
+    })
+    this.undoManager.on('stack-item-popped', ({ stackItem }) => {
+      this._state.setCursor(stackItem.meta.get('cursor') ?? null)
+    })
     this.lastUpdateCount = this._state.updateCount
     this.updateFunc = () => {
       if (this.lastUpdateCount !== this._state.updateCount) {
@@ -73,14 +152,25 @@ export class StateManager<T extends 'root'> {
   }
 
   update<R>(updateFn: (state: WritableState) => R): R {
+    if (this.updateCallDepth === 0) {
+      this.cursorBeforeUpdate = this._state.cursor
+    }
+
     this.updateCallDepth += 1
-    const result = updateFn(this._state)
-    this.updateCallDepth -= 1
 
-    if (this.updateCallDepth === 0) {
-      this._state.incCounter()
+    try {
+      return this._state.transact(() => updateFn(this._state))
+    } finally {
+      // The depth is also reset when the update throws, since otherwise no
+      // later update would be rendered
+      this.updateCallDepth -= 1
+
+      if (this.updateCallDepth === 0) {
+        // Each top-level update is a separate step in the undo history
+        this.undoManager.stopCapturing()
+        this._state.incCounter()
+      }
     }
-    return result
   }
 
   read(): JSONValue<T> {
@@ -91,56 +181,142 @@ export class StateManager<T extends 'root'> {
     return this._state
   }
 
+  get mode(): EditorMode {
+    return this._mode
+  }
+
+  setMode(mode: EditorMode) {
+    if (mode === this._mode) return
+
+    this._mode = mode
+    // Collaborators shall not see a cursor of a user who is not editing
+    this._state.setCursor(null)
+    this.selectionAnchor = null
+    this._state.incCounter()
+  }
+
   render(): ReactNode {
     const rootEntry = this._state.getEntry(this.rootKey)
     return getHandler(rootEntry.type).render(this, rootEntry)
   }
 
+  /**
+   * Renders the document as static HTML for the export (see `renderHtml()` of
+   * the node handlers).
+   */
+  renderHtml(): string {
+    const rootEntry = this._state.getEntry(this.rootKey)
+    return getHandler(rootEntry.type).renderHtml(this._state, rootEntry)
+  }
+
   dispatchCommand<C extends Command>(
     command: C,
     ...payload: CommandPayload<C>
   ): boolean {
+    // The content is read-only in the preview
+    if (this._mode === 'preview') return false
+
+    if (command === Command.Undo || command === Command.Redo) {
+      // Undo and redo must not run inside of `update()` since otherwise their
+      // changes would be tracked as new changes of the local user
+      return this.applyHistory(command)
+    }
+
     return this.update((state) => {
-      if (
-        command === Command.AddParagraph ||
-        command === Command.AddMultipleChoice
-      ) {
-        this.update((state) => {
-          const newElement: JSONValue<'paragraph' | 'multipleChoice'> =
-            command === Command.AddParagraph
-              ? { type: 'paragraph', value: '...' }
-              : {
-                  type: 'multipleChoice',
-                  task: [{ type: 'paragraph', value: 'What is 2 + 2?' }],
-                  answers: [
-                    {
-                      type: 'multipleChoiceAnswer',
-                      isCorrect: false,
-                      answer: '3',
-                    },
-                    {
-                      type: 'multipleChoiceAnswer',
-                      isCorrect: true,
-                      answer: '4',
-                    },
-                    {
-                      type: 'multipleChoiceAnswer',
-                      isCorrect: false,
-                      answer: '5',
-                    },
-                  ],
-                }
-          const key = getHandler(newElement.type).insert(
-            state,
-            this.rootKey,
-            newElement,
-          ).key
-          state.update(this.rootKey, (prev) => [...prev, key])
-        })
+      const newElement = newElements[command]
+
+      if (newElement != null) {
+        const key = getHandler(newElement.type).insert(
+          state,
+          this.rootKey,
+          newElement,
+        ).key
+        state.update(this.rootKey, (prev) => [...prev, key])
+
+        return true
+      }
+      if (command === Command.InsertContent && state.cursor == null) {
+        const [content] = payload as CommandPayload<Command.InsertContent>
+        // Without a cursor the content is appended to the document
+        const keys = content.map(
+          (element) =>
+            getHandler(element.type).insert(state, this.rootKey, element).key,
+        )
+
+        state.update(this.rootKey, (prev) => [...prev, ...keys])
+
+        return true
       }
       if (state.cursor == null) return true
 
-      if (command !== Command.DeleteRange && !isCollapsed(state.cursor)) {
+      if (command === Command.Copy || command === Command.Cut) {
+        if (isCollapsed(state.cursor)) return false
+
+        const [clipboard] = payload as CommandPayload<Command.Paste>
+
+        writeClipboard(clipboard, this.readSelection(state, state.cursor))
+
+        return command === Command.Copy
+          ? true
+          : this.dispatchCommand(Command.DeleteRange)
+      }
+
+      if (command === Command.MoveCursor) {
+        const [movement, extend] = payload as CommandPayload<Command.MoveCursor>
+
+        return this.moveCursor(state, state.cursor, movement, extend)
+      }
+
+      if (command === Command.ToggleMark) {
+        const [mark] = payload as CommandPayload<Command.ToggleMark>
+
+        return this.toggleMark(state, state.cursor, mark)
+      }
+
+      if (command === Command.SetLink) {
+        const [href] = payload as CommandPayload<Command.SetLink>
+
+        if (isCollapsed(state.cursor)) return false
+
+        for (const { key, start, end } of getSelectedTexts(
+          state,
+          this.rootKey,
+          state.cursor,
+        )) {
+          state.formatText(key, start, end - start, {
+            link: href != null ? { href } : null,
+          })
+        }
+
+        return true
+      }
+
+      if (command === Command.SetBlank) {
+        const [alternatives] = payload as CommandPayload<Command.SetBlank>
+        const clozeKey = getClozeKey(state, state.cursor.start)
+
+        if (isCollapsed(state.cursor)) return false
+        // Blanks are only part of the text of a single cloze exercise
+        if (
+          clozeKey == null ||
+          clozeKey !== getClozeKey(state, state.cursor.end)
+        )
+          return false
+
+        for (const { key, start, end } of getSelectedTexts(
+          state,
+          this.rootKey,
+          state.cursor,
+        )) {
+          state.formatText(key, start, end - start, {
+            blank: alternatives != null ? { alternatives } : null,
+          })
+        }
+
+        return true
+      }
+
+      if (!selectionCommands.includes(command) && !isCollapsed(state.cursor)) {
         const result = this.dispatchCommand(Command.DeleteRange)
 
         if (!result) return false
@@ -153,6 +329,29 @@ export class StateManager<T extends 'root'> {
         }
       }
 
+      if (command === Command.Paste) {
+        const [clipboard] = payload as CommandPayload<Command.Paste>
+        const content = readClipboard(clipboard)
+
+        return content != null && this.insertContent(state, content)
+      }
+
+      if (command === Command.InsertContent) {
+        const [content] = payload as CommandPayload<Command.InsertContent>
+
+        return this.insertContent(state, content)
+      }
+
+      if (command === Command.InsertText) {
+        const [text] = payload as CommandPayload<Command.InsertText>
+
+        if (
+          text === ' ' &&
+          this.applyMarkdownShortcut(state, state.cursor.start)
+        )
+          return true
+      }
+
       const { start, end } = state.cursor
       const startPath = getPathToRoot(state, start)
       const endPath = getPathToRoot(state, end)
@@ -194,6 +393,425 @@ export class StateManager<T extends 'root'> {
       return false
     })
   }
+
+  private moveCursor(
+    state: WritableState,
+    cursor: Cursor,
+    movement: CursorMovement,
+    extend: boolean,
+  ): boolean {
+    const anchor =
+      this.selectionAnchor != null &&
+      (isEqual(this.selectionAnchor, cursor.start) ||
+        isEqual(this.selectionAnchor, cursor.end))
+        ? this.selectionAnchor
+        : cursor.start
+    const focus = isEqual(anchor, cursor.start) ? cursor.end : cursor.start
+
+    this.selectionAnchor = null
+
+    if (!extend && !isCollapsed(cursor)) {
+      if (movement === 'left' || movement === 'right') {
+        // Like in other editors, left and right only collapse the selection
+        state.setCaret(movement === 'left' ? cursor.start : cursor.end)
+      } else {
+        const from = isBackwardMovement(movement) ? cursor.start : cursor.end
+
+        moveCaret(state, this.rootKey, from, movement)
+      }
+
+      return true
+    }
+
+    moveCaret(state, this.rootKey, extend ? focus : cursor.start, movement)
+
+    if (!extend || state.cursor == null) return true
+
+    const newFocus = state.cursor.start
+
+    this.selectionAnchor = anchor
+
+    state.setCursor(
+      comparePoints(state, this.rootKey, anchor, newFocus) <= 0
+        ? { start: anchor, end: newFocus }
+        : { start: newFocus, end: anchor },
+    )
+
+    return true
+  }
+
+  private toggleMark(
+    state: WritableState,
+    cursor: Cursor,
+    mark: MarkType,
+  ): boolean {
+    if (isCollapsed(cursor)) {
+      // Without a selection the mark is applied to the next inserted text
+      const { key, index } = cursor.start
+
+      if (!isKeyType('text', key) || index == null) return false
+
+      const marks =
+        state.storedMarks ?? getMarksAt(state.getTextSpans(key), index)
+
+      state.setStoredMarks(
+        marks[mark] ? omit(marks, [mark]) : { ...marks, [mark]: true },
+      )
+
+      return true
+    }
+
+    const selectedTexts = getSelectedTexts(state, this.rootKey, cursor)
+    const isActive = selectedTexts.every(({ key, start, end }) =>
+      hasMark(
+        sliceRichText(getHandler(key).read(state, key), start, end),
+        mark,
+      ),
+    )
+
+    for (const { key, start, end } of selectedTexts) {
+      state.formatText(key, start, end - start, {
+        [mark]: isActive ? null : true,
+      })
+    }
+
+    return true
+  }
+
+  /**
+   * Applies Markdown-like shortcuts when a space is typed at the start of a
+   * paragraph: `#`, `##` and `###` turn a paragraph of the root into a
+   * heading, while `-` or `*` and `1.` start a bulleted or numbered list.
+   */
+  private applyMarkdownShortcut(
+    state: WritableState,
+    { key, index }: Point,
+  ): boolean {
+    if (!isKeyType('text', key) || index == null) return false
+
+    const { parent, value } = state.getEntry(key)
+
+    if (parent == null || !isKeyType('paragraph', parent)) return false
+
+    const container = state.getEntry(parent).parent
+    const prefix = value.slice(0, index)
+    const removePrefix = () => {
+      state.deleteText(key, 0, prefix.length)
+      state.setCaret({ key, index: 0 })
+    }
+
+    if (/^#{1,3}$/.test(prefix) && container === this.rootKey) {
+      removePrefix()
+
+      return this.dispatchCommand(
+        Command.SetHeading,
+        prefix.length as HeadingLevel,
+      )
+    }
+
+    const listType: ListType | null =
+      prefix === '-' || prefix === '*'
+        ? 'bulletList'
+        : prefix === '1.'
+          ? 'orderedList'
+          : null
+    const containerParent =
+      container != null ? state.getEntry(container).parent : null
+    const isInListItem =
+      containerParent != null && isKeyType('listItem', containerParent)
+
+    if (listType != null && container != null && !isInListItem) {
+      removePrefix()
+
+      return this.dispatchCommand(Command.ToggleList, listType)
+    }
+
+    return false
+  }
+
+  /**
+   * Returns the selected part of the document. Paragraphs are cut at the
+   * borders of the selection, while other elements are always returned as a
+   * whole.
+   */
+  private readSelection(
+    state: ReadonlyState,
+    { start, end }: Cursor,
+  ): JSONValue<'root'> {
+    if (start.key === end.key && isKeyType('text', start.key)) {
+      const value = getHandler(start.key).read(state, start.key)
+
+      return [
+        {
+          type: 'paragraph',
+          value: sliceRichText(value, start.index, end.index),
+        },
+      ]
+    }
+
+    // The first frame is the root with the index of the selected child
+    const startIndex = (getPathToRoot(state, start)[0].index ?? 0) as number
+    const endIndex = getPathToRoot(state, end)[0].index as number | undefined
+    const children = state.getEntry(this.rootKey).value
+
+    return children
+      .slice(startIndex, endIndex != null ? endIndex + 1 : undefined)
+      .map((key, index, selected) => {
+        const element = getHandler(key).read(state, key)
+
+        if (element.type !== 'paragraph' && element.type !== 'heading')
+          return element
+
+        const textKey = getInlineText(state, state.getEntry(key))?.key
+        const from = index === 0 && start.key === textKey ? start.index : 0
+        const to =
+          index === selected.length - 1 && end.key === textKey
+            ? end.index
+            : undefined
+
+        return { ...element, value: sliceRichText(element.value, from, to) }
+      })
+  }
+
+  /**
+   * Inserts the given content at the cursor. Headings, lists and multiple
+   * choice exercises can only be inserted between the elements of the root,
+   * so inside of other elements they are inserted as paragraphs.
+   */
+  private insertContent(
+    state: WritableState,
+    content: JSONValue<'root'>,
+  ): boolean {
+    // Whether the next paragraph can be inserted at the cursor without
+    // starting a new paragraph first
+    let isAtParagraphStart = true
+
+    for (const element of content) {
+      if (state.cursor == null) return false
+
+      const path = getPathToRoot(state, state.cursor.start)
+      const isInRootParagraph =
+        path.length === 3 &&
+        (path[1].entry.type === 'paragraph' || path[1].entry.type === 'heading')
+
+      if (element.type !== 'paragraph' && isInRootParagraph) {
+        if ((state.cursor.start.index ?? 0) > 0) {
+          this.dispatchCommand(Command.InsertNewElement)
+        }
+
+        if (state.cursor == null) return false
+
+        const index = getPathToRoot(state, state.cursor.start)[0]
+          .index as number
+        const key = getHandler(element.type).insert(
+          state,
+          this.rootKey,
+          element,
+        ).key
+
+        state.update(this.rootKey, (prev) => [
+          ...prev.slice(0, index),
+          key,
+          ...prev.slice(index),
+        ])
+
+        isAtParagraphStart = true
+      } else {
+        for (const value of getTexts(element)) {
+          if (!isAtParagraphStart) {
+            this.dispatchCommand(Command.InsertNewElement)
+          }
+
+          // Pasted text keeps its own marks
+          for (const { text, marks } of toSpans(value)) {
+            state.setStoredMarks(marks ?? {})
+            this.dispatchCommand(Command.InsertText, text)
+          }
+
+          isAtParagraphStart = false
+        }
+      }
+    }
+
+    return true
+  }
+
+  private applyHistory(command: Command.Undo | Command.Redo): boolean {
+    this.cursorBeforeUpdate = this._state.cursor
+
+    const stackItem =
+      command === Command.Undo
+        ? this.undoManager.undo()
+        : this.undoManager.redo()
+
+    this._state.incCounter()
+
+    return stackItem != null
+  }
+}
+
+/**
+ * Commands which are applied to the selection instead of replacing it.
+ */
+const selectionCommands: Command[] = [
+  Command.DeleteRange,
+  Command.MoveCursor,
+  Command.SetHeading,
+  Command.ToggleList,
+  Command.Indent,
+  Command.Outdent,
+  Command.MoveUp,
+  Command.MoveDown,
+]
+
+/**
+ * Returns the texts of an element of the root in document order. They are
+ * used to insert the element as a sequence of paragraphs.
+ */
+function getTexts(element: JSONValue<'root'>[number]): JSONValue<'text'>[] {
+  switch (element.type) {
+    case 'paragraph':
+    case 'heading':
+      return [element.value]
+    case 'bulletList':
+    case 'orderedList':
+      return element.items.flatMap(({ value }) => value.flatMap(getTexts))
+    case 'multipleChoice':
+      return [
+        ...element.task.flatMap(getTexts),
+        ...element.answers.map(({ answer }) => answer),
+      ]
+    case 'cloze':
+      return [...element.task, ...element.text].flatMap(getTexts)
+    case 'textInput':
+      return [...element.task, ...element.solution].flatMap(getTexts)
+    case 'ordering':
+      return [
+        ...element.task.flatMap(getTexts),
+        ...element.items.map(({ value }) => value),
+      ]
+    case 'formula': {
+      const latex = getPlainText(element.value)
+
+      // Inside of texts formulas are inline formulas
+      return latex !== '' ? [[{ text: latex, marks: { math: true } }]] : []
+    }
+    case 'image':
+      return element.caption?.flatMap(getTexts) ?? []
+    case 'codeBlock':
+      return getPlainText(element.code).split('\n')
+    case 'matching':
+      return [
+        ...element.task,
+        ...element.pairs.flatMap(({ term, match }) => [...term, ...match]),
+      ].flatMap(getTexts)
+  }
+}
+
+/**
+ * Returns the key of the cloze exercise whose text contains the point.
+ */
+function getClozeKey(state: ReadonlyState, point: Point): Key | null {
+  const frame = getPathToRoot(state, point).find(
+    ({ entry, index }) => entry.type === 'cloze' && index === 'text',
+  )
+
+  return frame?.entry.key ?? null
+}
+
+/**
+ * Default elements which are appended by the commands to add new elements.
+ */
+const newElements: Partial<Record<Command, JSONValue<'root'>[number]>> = {
+  [Command.AddParagraph]: { type: 'paragraph', value: '...' },
+  [Command.AddImage]: { type: 'image', src: '', alt: '' },
+  [Command.AddFormula]: { type: 'formula', value: 'a^2 + b^2 = c^2' },
+  [Command.AddCodeBlock]: {
+    type: 'codeBlock',
+    language: 'python',
+    code: 'def greet(name):\n  print(f"Hello, {name}!")',
+  },
+  [Command.AddMultipleChoice]: {
+    type: 'multipleChoice',
+    mode: 'single',
+    task: [{ type: 'paragraph', value: 'What is 2 + 2?' }],
+    answers: [
+      { type: 'multipleChoiceAnswer', isCorrect: false, answer: '3' },
+      { type: 'multipleChoiceAnswer', isCorrect: true, answer: '4' },
+      { type: 'multipleChoiceAnswer', isCorrect: false, answer: '5' },
+    ],
+  },
+  [Command.AddCloze]: {
+    type: 'cloze',
+    task: [{ type: 'paragraph', value: 'Fill in the blanks.' }],
+    text: [
+      {
+        type: 'paragraph',
+        value: [
+          { text: 'The capital of France is ' },
+          { text: 'Paris', marks: { blank: { alternatives: [] } } },
+          { text: '.' },
+        ],
+      },
+    ],
+  },
+  [Command.AddTextInput]: {
+    type: 'textInput',
+    task: [{ type: 'paragraph', value: 'Explain the idea in your own words.' }],
+    solution: [{ type: 'paragraph', value: 'A sample solution.' }],
+  },
+  [Command.AddOrdering]: {
+    type: 'ordering',
+    task: [{ type: 'paragraph', value: 'Put the steps in the right order.' }],
+    items: [
+      { type: 'orderingItem', value: 'First step' },
+      { type: 'orderingItem', value: 'Second step' },
+      { type: 'orderingItem', value: 'Third step' },
+    ],
+  },
+  [Command.AddMatching]: {
+    type: 'matching',
+    task: [{ type: 'paragraph', value: 'Match each term to its definition.' }],
+    pairs: [
+      {
+        type: 'matchingPair',
+        term: [{ type: 'paragraph', value: 'Noun' }],
+        match: [{ type: 'paragraph', value: 'A word naming a thing.' }],
+      },
+      {
+        type: 'matchingPair',
+        term: [{ type: 'paragraph', value: 'Verb' }],
+        match: [{ type: 'paragraph', value: 'A word naming an action.' }],
+      },
+    ],
+  },
+}
+
+/**
+ * Returns the selected parts of all `text` entries in document order.
+ */
+function getSelectedTexts(
+  state: ReadonlyState,
+  rootKey: Key,
+  { start, end }: Cursor,
+): { key: Key<'text'>; start: number; end: number }[] {
+  const textKeys = getTextKeys(state, rootKey)
+  const startIndex = textKeys.indexOf(start.key as Key<'text'>)
+  const endIndex = textKeys.indexOf(end.key as Key<'text'>)
+
+  if (startIndex < 0 || endIndex < 0) return []
+
+  return textKeys
+    .slice(startIndex, endIndex + 1)
+    .map((key, index, selected) => {
+      const { length } = state.getEntry(key).value
+
+      return {
+        key,
+        start: index === 0 ? (start.index ?? 0) : 0,
+        end: index === selected.length - 1 ? (end.index ?? length) : length,
+      }
+    })
 }
 
 function getPathToRoot(state: ReadonlyState, point: Point): Path {
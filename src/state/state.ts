@@ -1,30 +1,42 @@
-import { invariant } from 'es-toolkit'
-import { WebrtcProvider } from 'y-webrtc'
+import { invariant, isEqual } from 'es-toolkit'
+import type { Awareness } from 'y-protocols/awareness'
 import * as Y from 'yjs'
+import { formatIssues, validateEntry } from '../nodes/schema'
+import type { Marks, TextSpan } from '../nodes/types/node-description'
 import type { NodeType } from '../nodes/types/node-types'
+import { isUser, type Peer, type User } from '../presence'
+import type { MarkChanges } from '../rich-text'
 import type { Cursor, Point } from '../selection'
+import type { SyncProvider } from '../sync'
 import type { Entry, EntryValue } from './entry'
-import type { Key, ParentKey } from './key'
+import { isKey, isKeyType, type Key, type ParentKey, rootKey } from './key'
 
-const doc: { ymap?: Y.Map<unknown> } = {}
-
-function getEntries() {
-  if (doc.ymap == null) {
-    const ydoc = new Y.Doc()
-    new WebrtcProvider(window.location.hash || 'editor', ydoc, {
-      signaling: ['ws://localhost:32768'],
-    })
-    doc.ymap = ydoc.getMap('entries')
-  }
-
-  return doc.ymap
-}
+/**
+ * Number of keys generated per document. It is shared between all states of
+ * a document so that they never generate the same key twice.
+ */
+const keyClocks = new WeakMap<Y.Doc, number>()
 
 export class ReadonlyState {
+  readonly doc: Y.Doc
   entries: Y.Map<unknown>
+  /**
+   * The content of `text` entries. They are stored as `Y.Text` outside of
+   * `entries` so that concurrent edits are merged character by character.
+   */
+  texts: Y.Map<Y.Text>
+  /**
+   * Per-client state which is not part of the replicated document (like the
+   * cursor of the local user).
+   */
+  awareness: Awareness
+  protected _updateCount = 0
 
-  constructor() {
-    this.entries = getEntries()
+  constructor({ doc, awareness }: SyncProvider) {
+    this.doc = doc
+    this.entries = doc.getMap('entries')
+    this.texts = doc.getMap('texts')
+    this.awareness = awareness
   }
 
   getEntry<T extends NodeType>(key: Key<T>): Entry<T> {
@@ -32,31 +44,94 @@ export class ReadonlyState {
 
     invariant(entry != null, `Entry with key ${key} not found`)
 
+    if (isKeyType('text', key)) {
+      return { ...entry, value: this.getText(key).toString() } as Entry<T>
+    }
+
     return entry
   }
 
   getEntries(): [Key, Entry][] {
-    return Object.entries(this.entries.toJSON()) as [Key, Entry][]
+    return Array.from(this.entries.keys())
+      .filter(isKey)
+      .map((key) => [key, this.getEntry(key)])
+  }
+
+  getText(key: Key<'text'>): Y.Text {
+    const text = this.texts.get(key)
+
+    invariant(text != null, `Text with key ${key} not found`)
+
+    return text
+  }
+
+  getTextSpans(key: Key<'text'>): TextSpan[] {
+    const delta = this.getText(key).toDelta() as TextDelta
+
+    return delta.map(({ insert, attributes }) =>
+      attributes != null
+        ? { text: insert, marks: attributes }
+        : { text: insert },
+    )
   }
 
   get cursor(): Cursor | null {
-    return this.entries.get('cursor') as Cursor | null
+    return (this.awareness.getLocalState()?.cursor ?? null) as Cursor | null
+  }
+
+  get user(): User | null {
+    const user = this.awareness.getLocalState()?.user
+
+    return isUser(user) ? user : null
+  }
+
+  /**
+   * All other clients which are currently connected to the document.
+   */
+  get peers(): Peer[] {
+    return Array.from(this.awareness.getStates())
+      .filter(([clientId]) => clientId !== this.doc.clientID)
+      .flatMap(([clientId, { user, cursor }]) =>
+        isUser(user)
+          ? [{ clientId, user, cursor: (cursor ?? null) as Cursor | null }]
+          : [],
+      )
   }
 
   get updateCount() {
-    return (this.entries.get('counter') ?? 0) as number
+    return this._updateCount
   }
 }
 
 export class WritableState extends ReadonlyState {
-  private lastKey = -1
+  private listeners: (() => void)[] = []
+  /**
+   * The cursor stored with relative positions, so that it can be moved along
+   * when collaborators insert or delete text in front of it.
+   */
+  private relativeCursor: RelativeCursor | null = null
+  private _storedMarks: Marks | null = null
 
   addUpdateListener(listener: () => void) {
-    this.entries.observe(listener)
+    if (this.listeners.length === 0) {
+      this.doc.on('afterTransaction', this.onTransaction)
+      this.awareness.on('change', this.onAwarenessChange)
+    }
+
+    this.listeners.push(listener)
   }
 
   removeUpdateListener(listener: () => void) {
-    this.entries.unobserve(listener)
+    this.listeners = this.listeners.filter((x) => x !== listener)
+
+    if (this.listeners.length === 0) {
+      this.doc.off('afterTransaction', this.onTransaction)
+      this.awareness.off('change', this.onAwarenessChange)
+    }
+  }
+
+  transact<R>(updateFn: () => R): R {
+    return this.doc.transact(updateFn, this)
   }
 
   insert<T extends NodeType>(arg: InsertArg<T, never>): Entry<T>
@@ -79,8 +154,9 @@ export class WritableState extends ReadonlyState {
   }
 
   incCounter() {
-    const c = this.entries.get('counter') as number | null
-    this.entries.set('counter', (c ?? 0) + 1)
+    this._updateCount += 1
+
+    for (const listener of this.listeners) listener()
   }
 
   update<T extends NodeType>(
@@ -96,25 +172,195 @@ export class WritableState extends ReadonlyState {
     return newEntry
   }
 
+  /**
+   * Moves an entry to a new parent. The caller is responsible for removing
+   * the key from the old parent and for adding it to the new one.
+   */
+  move(key: Key, parent: ParentKey) {
+    // Text entries are updated in `entries` directly, since `set()` only
+    // changes the content of an existing text
+    this.entries.set(key, { ...(this.entries.get(key) as Entry), parent })
+  }
+
+  /**
+   * Inserts text at the given index. Without `marks` the text gets the marks
+   * of the surrounding text.
+   */
+  insertText(key: Key<'text'>, index: number, text: string, marks?: Marks) {
+    this.getText(key).insert(index, text, marks)
+  }
+
+  formatText(
+    key: Key<'text'>,
+    index: number,
+    length: number,
+    changes: MarkChanges,
+  ) {
+    this.getText(key).format(index, length, changes)
+  }
+
+  deleteText(key: Key<'text'>, index: number, length: number) {
+    this.getText(key).delete(index, length)
+  }
+
+  /**
+   * Marks for the next inserted text which were toggled while the cursor was
+   * collapsed. They are reset as soon as the cursor moves.
+   */
+  get storedMarks(): Marks | null {
+    return this._storedMarks
+  }
+
+  setStoredMarks(marks: Marks | null) {
+    this._storedMarks = marks
+  }
+
   setCursor(cursor: Cursor | null) {
-    this.entries.set('cursor', cursor)
+    if (!isEqual(cursor, this.cursor)) this._storedMarks = null
+
+    this.relativeCursor =
+      cursor != null
+        ? {
+            start: this.toRelativePoint(cursor.start),
+            end: this.toRelativePoint(cursor.end),
+          }
+        : null
+    this.awareness.setLocalStateField('cursor', cursor)
   }
 
   setCaret(point: Point) {
     this.setCursor({ start: point, end: point })
   }
 
+  private onTransaction = (transaction: Y.Transaction) => {
+    // Local changes are handled by `StateManager.update()`
+    if (transaction.local) return
+
+    this.validateRemoteChanges(transaction)
+
+    if (this.relativeCursor != null) {
+      const { start, end } = this.relativeCursor
+
+      this.awareness.setLocalStateField('cursor', {
+        start: this.toAbsolutePoint(start),
+        end: this.toAbsolutePoint(end),
+      })
+    }
+
+    this.incCounter()
+  }
+
+  /**
+   * Reports invalid entries of peers, for example of a peer running an older
+   * version of the editor. They are not reverted since this would discard the
+   * changes of the peer.
+   */
+  private validateRemoteChanges(transaction: Y.Transaction) {
+    // `transaction.changed.get(this.entries)` is rejected by TypeScript since
+    // the map is typed with the base class of all shared types
+    const changedKeys = Array.from(transaction.changed)
+      .filter(([type]) => type === (this.entries as unknown))
+      .flatMap(([, keys]) => Array.from(keys))
+      .filter((key) => key != null)
+    const issues = changedKeys.flatMap((key) =>
+      isKey(key)
+        ? validateEntry(this, key)
+        : [{ path: key, message: 'Invalid key' }],
+    )
+
+    if (issues.length > 0) {
+      console.error(`Invalid entries of a peer:\n${formatIssues(issues)}`)
+    }
+  }
+
+  private onAwarenessChange = (_: unknown, origin: unknown) => {
+    // Changes of the local cursor are handled by `StateManager.update()`
+    if (origin === 'local') return
+
+    this.incCounter()
+  }
+
+  private toRelativePoint({ key, index }: Point): RelativePoint {
+    if (index == null || !isKeyType('text', key)) return { key }
+
+    const text = this.getText(key)
+
+    return { key, index: Y.createRelativePositionFromTypeIndex(text, index) }
+  }
+
+  private toAbsolutePoint({ key, index }: RelativePoint): Point {
+    if (index == null) return { key }
+
+    const position = Y.createAbsolutePositionFromRelativePosition(
+      index,
+      this.doc,
+    )
+
+    return { key, index: position?.index ?? 0 }
+  }
+
   private set<T extends NodeType>(key: Key<T>, entry: Entry<T>) {
-    this.entries.set(key, entry as Entry)
+    if (isKeyType('text', key)) {
+      const { value, ...rest } = entry as Entry<'text'>
+
+      if (!this.entries.has(key)) this.entries.set(key, rest)
+
+      this.setText(key, value)
+    } else {
+      this.entries.set(key, entry as Entry)
+    }
+  }
+
+  private setText(key: Key<'text'>, value: string) {
+    const text = this.texts.get(key)
+
+    if (text == null) {
+      this.texts.set(key, new Y.Text(value))
+      return
+    }
+
+    // Only replace the part which has changed so that concurrent edits in
+    // the rest of the text are preserved
+    const current = text.toString()
+    const maxLength = Math.min(current.length, value.length)
+
+    let start = 0
+    while (start < maxLength && current[start] === value[start]) start++
+
+    let end = 0
+    while (
+      end < maxLength - start &&
+      current[current.length - end - 1] === value[value.length - end - 1]
+    )
+      end++
+
+    text.delete(start, current.length - start - end)
+    text.insert(start, value.slice(start, value.length - end))
   }
 
   private generateKey<T extends NodeType>(type: T): Key<T> {
-    this.lastKey += 1
+    if (type === 'root') return rootKey as Key<T>
+
+    const clock = keyClocks.get(this.doc) ?? 0
 
-    return `${this.lastKey}:${type}`
+    keyClocks.set(this.doc, clock + 1)
+
+    return `${this.doc.clientID}-${clock}:${type}`
   }
 }
 
+type TextDelta = { insert: string; attributes?: Marks }[]
+
+interface RelativeCursor {
+  start: RelativePoint
+  end: RelativePoint
+}
+
+interface RelativePoint {
+  key: Key
+  index?: Y.RelativePosition
+}
+
 interface InsertArg<T extends NodeType, R> {
   type: T
   parent: ParentKey
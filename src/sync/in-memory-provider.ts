@@ -0,0 +1,91 @@
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+} from 'y-protocols/awareness'
+import * as Y from 'yjs'
+import type { SyncProvider } from './sync-provider'
+
+/**
+ * Synchronizes documents within the same JavaScript context. Without any
+ * connected peers it can be used to run the editor without a transport, and
+ * it allows wiring several state managers together directly (e.g. in tests).
+ *
+ * @example
+ * const first = new InMemorySyncProvider()
+ * const second = new InMemorySyncProvider()
+ *
+ * first.connect(second)
+ */
+export class InMemorySyncProvider implements SyncProvider {
+  readonly doc: Y.Doc
+  readonly awareness: Awareness
+  // Peers are synced as soon as they are connected
+  readonly whenSynced = Promise.resolve()
+  private readonly peers = new Set<InMemorySyncProvider>()
+
+  constructor({ doc = new Y.Doc() }: { doc?: Y.Doc } = {}) {
+    this.doc = doc
+    this.awareness = new Awareness(doc)
+    this.doc.on('update', this.onUpdate)
+    this.awareness.on('update', this.onAwarenessUpdate)
+  }
+
+  connect(peer: InMemorySyncProvider) {
+    if (peer === this || this.peers.has(peer)) return
+
+    this.peers.add(peer)
+    peer.connect(this)
+
+    Y.applyUpdate(peer.doc, Y.encodeStateAsUpdate(this.doc), this)
+    applyAwarenessUpdate(
+      peer.awareness,
+      encodeAwarenessUpdate(
+        this.awareness,
+        Array.from(this.awareness.getStates().keys()),
+      ),
+      this,
+    )
+  }
+
+  disconnect(peer: InMemorySyncProvider) {
+    if (!this.peers.delete(peer)) return
+
+    peer.disconnect(this)
+  }
+
+  destroy() {
+    for (const peer of this.peers) this.disconnect(peer)
+
+    this.doc.off('update', this.onUpdate)
+    this.awareness.off('update', this.onAwarenessUpdate)
+    this.awareness.destroy()
+  }
+
+  private onUpdate = (update: Uint8Array, origin: unknown) => {
+    for (const peer of this.peers) {
+      if (peer !== origin) Y.applyUpdate(peer.doc, update, this)
+    }
+  }
+
+  private onAwarenessUpdate = (
+    { added, updated, removed }: AwarenessChanges,
+    origin: unknown,
+  ) => {
+    const update = encodeAwarenessUpdate(this.awareness, [
+      ...added,
+      ...updated,
+      ...removed,
+    ])
+
+    for (const peer of this.peers) {
+      if (peer !== origin) applyAwarenessUpdate(peer.awareness, update, this)
+    }
+  }
+}
+
+interface AwarenessChanges {
+  added: number[]
+  updated: number[]
+  removed: number[]
+}
@@ -0,0 +1,30 @@
+import { InMemorySyncProvider } from './in-memory-provider'
+import type { SyncProvider } from './sync-provider'
+import { WebrtcSyncProvider } from './webrtc-provider'
+import { WebsocketSyncProvider } from './websocket-provider'
+
+export * from './in-memory-provider'
+export * from './persistence'
+export * from './sync-provider'
+export * from './webrtc-provider'
+export * from './websocket-provider'
+
+export type SyncProviderType = 'webrtc' | 'websocket' | 'none'
+
+export function createSyncProvider(
+  type: SyncProviderType,
+  room: string,
+): SyncProvider {
+  switch (type) {
+    case 'webrtc':
+      return new WebrtcSyncProvider(room)
+    case 'websocket':
+      return new WebsocketSyncProvider(room)
+    case 'none':
+      return new InMemorySyncProvider()
+  }
+}
+
+export function isSyncProviderType(value: unknown): value is SyncProviderType {
+  return value === 'webrtc' || value === 'websocket' || value === 'none'
+}
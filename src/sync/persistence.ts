@@ -0,0 +1,12 @@
+import { IndexeddbPersistence } from 'y-indexeddb'
+import type * as Y from 'yjs'
+
+/**
+ * Stores the document in the IndexedDB of the browser. The returned promise
+ * resolves as soon as the stored version is loaded. Before that the document
+ * is empty, so it must not be used to decide whether the initial content
+ * needs to be inserted.
+ */
+export function persistDocument(doc: Y.Doc, room: string): Promise<void> {
+  return new IndexeddbPersistence(room, doc).whenSynced.then(() => undefined)
+}
@@ -0,0 +1,24 @@
+import type { Awareness } from 'y-protocols/awareness'
+import type * as Y from 'yjs'
+
+/**
+ * Connects a document with other peers. Besides the document itself it also
+ * synchronizes the per-client state (like the cursor of each user) via the
+ * awareness.
+ */
+export interface SyncProvider {
+  readonly doc: Y.Doc
+  readonly awareness: Awareness
+  /**
+   * Resolves as soon as the document of the room has been received. Only then
+   * it is known whether the room is empty and needs the initial content.
+   */
+  readonly whenSynced: Promise<void>
+  destroy(): void
+}
+
+/**
+ * Time in milliseconds after which a document counts as synced when no peer
+ * has answered, since the room might be empty or the server unreachable.
+ */
+export const syncTimeout = 3000
@@ -0,0 +1,41 @@
+import { Awareness } from 'y-protocols/awareness'
+import { WebrtcProvider } from 'y-webrtc'
+import * as Y from 'yjs'
+import { type SyncProvider, syncTimeout } from './sync-provider'
+
+/**
+ * Synchronizes the document directly between the browsers of all peers. The
+ * signaling server is only used to establish the connections (see
+ * `start_server.sh` for a local one).
+ */
+export class WebrtcSyncProvider implements SyncProvider {
+  readonly doc: Y.Doc
+  readonly awareness: Awareness
+  readonly whenSynced: Promise<void>
+  private readonly provider: WebrtcProvider
+
+  constructor(
+    room: string,
+    {
+      doc = new Y.Doc(),
+      signaling = ['ws://localhost:32768'],
+    }: { doc?: Y.Doc; signaling?: string[] } = {},
+  ) {
+    this.doc = doc
+    this.awareness = new Awareness(doc)
+    this.provider = new WebrtcProvider(room, doc, {
+      signaling,
+      awareness: this.awareness,
+    })
+    this.whenSynced = new Promise((resolve) => {
+      this.provider.on('synced', () => resolve())
+      // Without other peers in the room the document is never synced
+      setTimeout(resolve, syncTimeout)
+    })
+  }
+
+  destroy() {
+    this.provider.destroy()
+    this.awareness.destroy()
+  }
+}
@@ -0,0 +1,44 @@
+import { Awareness } from 'y-protocols/awareness'
+import { WebsocketProvider } from 'y-websocket'
+import * as Y from 'yjs'
+import { type SyncProvider, syncTimeout } from './sync-provider'
+
+/**
+ * Synchronizes the document via a WebSocket server which relays all changes
+ * between the peers (see `start_websocket_server.sh` for a local one).
+ */
+export class WebsocketSyncProvider implements SyncProvider {
+  readonly doc: Y.Doc
+  readonly awareness: Awareness
+  readonly whenSynced: Promise<void>
+  private readonly provider: WebsocketProvider
+
+  constructor(
+    room: string,
+    {
+      doc = new Y.Doc(),
+      serverUrl = 'ws://localhost:1234',
+    }: { doc?: Y.Doc; serverUrl?: string } = {},
+  ) {
+    this.doc = doc
+    this.awareness = new Awareness(doc)
+    // The room is part of the URL path, so characters like `#` need to be
+    // escaped
+    this.provider = new WebsocketProvider(
+      serverUrl,
+      encodeURIComponent(room),
+      doc,
+      { awareness: this.awareness },
+    )
+    this.whenSynced = new Promise((resolve) => {
+      this.provider.once('sync', () => resolve())
+      // Allows working offline when the server is not reachable
+      setTimeout(resolve, syncTimeout)
+    })
+  }
+
+  destroy() {
+    this.provider.destroy()
+    this.awareness.destroy()
+  }
+}
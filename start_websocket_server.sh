@@ -0,0 +1,3 @@
+#!/bin/bash
+
+PORT=1234 node websocket-server.js
@@ -0,0 +1,137 @@
+// Minimal WebSocket server for the y-websocket protocol. It keeps one Yjs
+// document per room in memory and relays all changes between the connected
+// peers.
+import * as decoding from 'lib0/decoding'
+import * as encoding from 'lib0/encoding'
+import { WebSocketServer } from 'ws'
+import * as awarenessProtocol from 'y-protocols/awareness'
+import * as syncProtocol from 'y-protocols/sync'
+import * as Y from 'yjs'
+
+const messageSync = 0
+const messageAwareness = 1
+
+const port = Number.parseInt(process.env.PORT ?? '1234', 10)
+const rooms = new Map()
+
+function getRoom(name) {
+  const existingRoom = rooms.get(name)
+
+  if (existingRoom != null) return existingRoom
+
+  const doc = new Y.Doc()
+  const awareness = new awarenessProtocol.Awareness(doc)
+  // The server itself has no cursor or user
+  awareness.setLocalState(null)
+
+  // Maps each connection to the awareness client ids it controls
+  const room = { doc, awareness, connections: new Map() }
+
+  doc.on('update', (update) => {
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, messageSync)
+    syncProtocol.writeUpdate(encoder, update)
+    broadcast(room, encoding.toUint8Array(encoder))
+  })
+
+  awareness.on('update', ({ added, updated, removed }, connection) => {
+    const clientIds = room.connections.get(connection)
+
+    if (clientIds != null) {
+      for (const clientId of added) clientIds.add(clientId)
+      for (const clientId of removed) clientIds.delete(clientId)
+    }
+
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, messageAwareness)
+    encoding.writeVarUint8Array(
+      encoder,
+      awarenessProtocol.encodeAwarenessUpdate(awareness, [
+        ...added,
+        ...updated,
+        ...removed,
+      ]),
+    )
+    broadcast(room, encoding.toUint8Array(encoder))
+  })
+
+  rooms.set(name, room)
+
+  return room
+}
+
+function broadcast(room, message) {
+  for (const connection of room.connections.keys()) send(connection, message)
+}
+
+function send(connection, message) {
+  if (connection.readyState === connection.OPEN) connection.send(message)
+}
+
+const server = new WebSocketServer({ port })
+
+server.on('connection', (connection, request) => {
+  const url = new URL(request.url ?? '/', 'ws://localhost')
+  const room = getRoom(decodeURIComponent(url.pathname.slice(1)))
+
+  connection.binaryType = 'arraybuffer'
+  room.connections.set(connection, new Set())
+
+  connection.on('message', (data) => {
+    const decoder = decoding.createDecoder(new Uint8Array(data))
+    const encoder = encoding.createEncoder()
+
+    switch (decoding.readVarUint(decoder)) {
+      case messageSync:
+        encoding.writeVarUint(encoder, messageSync)
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, connection)
+
+        if (encoding.length(encoder) > 1) {
+          send(connection, encoding.toUint8Array(encoder))
+        }
+        break
+      case messageAwareness:
+        awarenessProtocol.applyAwarenessUpdate(
+          room.awareness,
+          decoding.readVarUint8Array(decoder),
+          connection,
+        )
+        break
+    }
+  })
+
+  connection.on('close', () => {
+    const clientIds = room.connections.get(connection) ?? new Set()
+
+    room.connections.delete(connection)
+    awarenessProtocol.removeAwarenessStates(
+      room.awareness,
+      Array.from(clientIds),
+      null,
+    )
+  })
+
+  // Request the state of the new peer and send it the current state of the
+  // room, so that changes made while offline are synchronized in both ways
+  const syncEncoder = encoding.createEncoder()
+  encoding.writeVarUint(syncEncoder, messageSync)
+  syncProtocol.writeSyncStep1(syncEncoder, room.doc)
+  send(connection, encoding.toUint8Array(syncEncoder))
+
+  const awarenessStates = room.awareness.getStates()
+
+  if (awarenessStates.size > 0) {
+    const awarenessEncoder = encoding.createEncoder()
+    encoding.writeVarUint(awarenessEncoder, messageAwareness)
+    encoding.writeVarUint8Array(
+      awarenessEncoder,
+      awarenessProtocol.encodeAwarenessUpdate(
+        room.awareness,
+        Array.from(awarenessStates.keys()),
+      ),
+    )
+    send(connection, encoding.toUint8Array(awarenessEncoder))
+  }
+})
+
+console.log(`WebSocket server is running on ws://localhost:${port}`)